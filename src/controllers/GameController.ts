@@ -1,17 +1,33 @@
-import { PuzzleModel } from '../models/PuzzleModel'
-import { PuzzleView } from '../views/PuzzleView'
-import { debounce, supportsFullscreen } from '../utils/helpers'
+import { BoardSize, InvalidBoardError, MoveRecord, PuzzleModel } from '../models/PuzzleModel'
+import { GamePuzzle, Puzzle, createPuzzle } from '../models/Puzzle'
+import { RotationAxis, RotationMove } from '../models/LoopoverModel'
+import { BlindfoldHandlers, HistoryHandlers, PuzzleView, WelcomeControls } from '../views/PuzzleView'
+import { DEFAULT_GAME_SETTINGS, GameSettings, countMoves, isDifficulty, isGoalLayout, isMatchMode, isMoveMetric, isObstacleLayout, isPuzzleVariant, isUndoRule } from '../models/GameSettings'
+import { createGoalBoard, parseCustomGoal } from '../models/GoalLayout'
+import { getBlockedCells, getLockedTiles } from '../models/ObstacleLayout'
+import { SolverResult, SolverProgress, createSolvedBoard } from '../models/PuzzleSolver'
+import { createStateKey } from '../models/BoardHash'
+import { getTutorStep } from '../models/Tutor'
+import { SolverCancelledError, SolverService } from '../services/SolverService'
+import { debounce, parseBoardSize, supportsFullscreen } from '../utils/helpers'
+import { parseSeed } from '../utils/random'
+import { PictureChoice, PuzzleImage, createPuzzleImage } from '../utils/image'
 
 /**
  * Controller class that manages game state and connects model with view
  */
 export class GameController {
-  private model: PuzzleModel | null = null
+  private model: GamePuzzle | null = null
   private view: PuzzleView
-  private moveCount: number = 0
-  private dimensionSelect: HTMLSelectElement | null = null
+  private modelListeners: (() => void)[] = []
+  private welcomeControls: WelcomeControls | null = null
+  private settings: GameSettings = { ...DEFAULT_GAME_SETTINGS }
   private gameStarted: boolean = false
   private isMoving: boolean = false
+  private keyboardHandlersReady: boolean = false
+  private solverService: SolverService = new SolverService()
+  private pictureChoice: PictureChoice | null = null
+  private tutorActive: boolean = false
   
   // Debounced resize handler
   private resizeHandler = debounce(() => {
@@ -32,13 +48,11 @@ export class GameController {
    * Start the game by displaying welcome screen
    */
   start(): void {
-    // Initial dimension
-    const initialDimension = 3
-    
     // Render welcome screen
-    this.dimensionSelect = this.view.renderWelcomeScreen(
+    this.welcomeControls = this.view.renderWelcomeScreen(
       () => this.startGame(),
-      initialDimension
+      { rows: 3, cols: 3 },
+      this.settings
     )
     
     // Set up keyboard handler for fullscreen escape
@@ -49,50 +63,78 @@ export class GameController {
    * Start the actual puzzle game with selected settings
    */
   protected startGame(): void {
-    this.gameStarted = true
+    // Get selected size
+    const size = this.getSelectedSize()
     
-    // Get selected dimension
-    const dimension = this.dimensionSelect ? 
-      parseInt(this.dimensionSelect.value) : 3
+    console.log("Solo game - Selected size:", size)
     
-    console.log("Solo game - Selected dimension:", dimension)
+    // Create puzzle model, which needs a valid goal
+    const settings = this.getSelectedSettings()
+    const model = this.createSelectedPuzzle(size, settings)
+    if (!model) {
+      this.showInvalidGoal(size)
+      return
+    }
     
-    // Create puzzle model
-    this.model = new PuzzleModel(dimension)
+    // Shuffle from the challenge code if one was entered
+    this.playPuzzle(size, model, settings, this.getSelectedSeed())
+  }
+
+  /**
+   * Show the game screen and start playing a puzzle
+   * @param model Unscrambled puzzle to play
+   * @param settings Rules to play by
+   * @param seed Seed of the starting scramble; random when null
+   */
+  protected playPuzzle(size: BoardSize, model: GamePuzzle, settings: GameSettings, seed: number | null): void {
+    this.gameStarted = true
+    this.tutorActive = false
     
-    // Reset move count
-    this.moveCount = 0
+    // Apply the chosen rules
+    this.setSettings(settings)
+    this.setModel(model)
     
     // Try to enter fullscreen mode
     this.enterFullscreen()
     
     // Render game UI
     this.view.renderGameUI(
-      dimension,
+      size,
       () => this.resetGame(),
-      () => this.backToWelcome()
+      () => this.backToWelcome(),
+      model instanceof PuzzleModel ? () => this.showHint() : undefined,
+      this.getHistoryHandlers(),
+      () => this.choosePicture(),
+      model instanceof PuzzleModel ? () => this.copyMoves() : undefined,
+      this.canTutor(model) ? () => this.toggleTutor() : undefined,
+      this.getBlindfoldHandlers()
     )
+    this.updateGoal()
     
     // Setup window resize handler
     window.addEventListener('resize', this.resizeHandler)
     
     // Update and render the board
     this.updateBoard()
-    console.log("Solo game: updateBoard called with dimension", dimension)
+    console.log("Solo game: updateBoard called with size", size)
     
     // Force a resize to ensure board is correctly sized
     this.view.handleResize()
     console.log("Solo game: handleResize called")
     
     // Shuffle the puzzle to start
-    this.resetGame()
+    this.resetGame(seed ?? undefined)
+    
+    // Keep the picture from the last game, cropped for this board
+    this.applyPicture()
   }
 
   /**
    * Handle tile click events with animation handling
+   * @returns true if a tile moved
    */
-  protected handleTileClick(row: number, col: number): void {
-    if (!this.model || this.isMoving) return
+  protected handleTileClick(row: number, col: number): boolean {
+    if (!(this.model instanceof PuzzleModel) || this.isMoving) return false
     
     // Check if the move is valid
     if (this.model.canMoveTile(row, col)) {
@@ -103,18 +145,8 @@ export class GameController {
       const affectedTiles = this.model.getAffectedTiles(row, col)
       const isLongMove = affectedTiles.length > 0
       
-      // Perform the move
-      this.model.moveTile(row, col)
-      this.moveCount++
-      this.view.updateMoveCount(this.moveCount)
-      
-      // Update the board with animation
-      this.updateBoard()
-      
-      // Check if puzzle is solved
-      if (this.model.isSolved()) {
-        this.view.showSuccessMessage(this.moveCount)
-      }
+      // Perform the move and update the board with animation
+      this.applyMove(row, col)
       
       // Animation timeout to prevent rapid clicks
       // Allow more time for longer moves
@@ -122,29 +154,267 @@ export class GameController {
       setTimeout(() => {
         this.isMoving = false
       }, animationDuration)
+      
+      return true
     }
+    
+    return false
+  }
+
+  /**
+   * Slide a tile towards the empty space and update the view
+   * @returns true if the tile moved
+   */
+  protected applyMove(row: number, col: number): boolean {
+    if (!(this.model instanceof PuzzleModel) || !this.model.canMoveTile(row, col)) return false
+    
+    // Any solution being computed is for the old position
+    this.solverService.cancel()
+    
+    // Perform the move; the counters follow from the model's events
+    this.model.moveTile(row, col)
+    this.updateBoard()
+    
+    return true
+  }
+
+  /**
+   * Handle a loopover row or column rotation made by the player
+   * @returns true if the board changed
+   */
+  protected handleRotation(axis: RotationAxis, index: number, offset: number): boolean {
+    if (this.isMoving) return false
+    
+    const move = this.applyRotation(axis, index, offset)
+    if (!move) return false
+    
+    // Block input until the wrap-around animation is done
+    this.isMoving = true
+    const animationDuration = Math.abs(move.offset) > 1 ? 350 : 250
+    setTimeout(() => {
+      this.isMoving = false
+    }, animationDuration)
+    
+    return true
+  }
+
+  /**
+   * Rotate a loopover row or column and update the view
+   * @returns The rotation made, or null if the board did not change
+   */
+  protected applyRotation(axis: RotationAxis, index: number, offset: number): RotationMove | null {
+    if (this.model?.variant !== 'loopover') return null
+    
+    const move = this.model.rotate(axis, index, offset)
+    if (!move) return null
+    
+    this.updateBoard(move)
+    
+    return move
   }
 
   /**
    * Reset the game with a freshly shuffled board
+   * @param seed Seed for a reproducible scramble; random when omitted
    */
-  protected resetGame(): void {
+  protected resetGame(seed?: number): void {
     if (!this.model) return
     
-    this.model.shuffle()
-    this.moveCount = 0
-    
-    this.view.updateMoveCount(this.moveCount)
-    this.view.clearStatusMessage()
+    this.solverService.cancel()
+    this.shuffleModel(this.model, seed)
     this.updateBoard()
   }
 
+  /**
+   * Replace the board with a new starting position, by default a scramble
+   * of the chosen difficulty
+   * @param seed Seed for a reproducible scramble; random when omitted
+   */
+  protected shuffleModel(model: GamePuzzle, seed?: number): void {
+    model.scramble(this.settings.difficulty, seed)
+  }
+
+  /**
+   * Keep the move counter, history and status in the view in step with a
+   * new model, and stop listening to the previous one
+   */
+  private observeModel(model: Puzzle<MoveRecord | RotationMove>): void {
+    this.modelListeners.forEach(removeListener => removeListener())
+    
+    const refreshCounters = () => {
+      this.view.updateMoveCount(this.getMoveCount())
+      this.updateHistory()
+      this.updateProgress()
+    }
+    
+    this.modelListeners = [
+      model.on('move', ({ kind }) => {
+        if (kind === 'undo') this.view.clearStatusMessage()
+        refreshCounters()
+      }),
+      model.on('solved', () => this.handleSolved()),
+      model.on('reset', refreshCounters),
+      model.on('shuffled', ({ seed }) => {
+        this.view.showSeed(seed)
+        this.view.clearStatusMessage()
+        refreshCounters()
+      })
+    ]
+  }
+
+  /**
+   * Celebrate a solved puzzle
+   */
+  protected handleSolved(): void {
+    this.view.showSuccessMessage(this.getMoveCount())
+  }
+
+  /**
+   * Get the number of moves made, counted under the current undo rule
+   */
+  protected getMoveCount(): number {
+    return this.model ? countMoves(this.model.getCounters(), this.settings.undoRule, this.settings.metric) : 0
+  }
+
+  /**
+   * Take back the last move, if the undo rule allows it
+   * @returns true if a move was undone
+   */
+  protected undoMove(): boolean {
+    if (this.isMoving || this.settings.undoRule === 'disabled') return false
+    
+    return this.applyUndo() !== null
+  }
+
+  /**
+   * Replay the last undone move, if the undo rule allows it
+   * @returns true if a move was redone
+   */
+  protected redoMove(): boolean {
+    if (this.isMoving || this.settings.undoRule === 'disabled') return false
+    
+    return this.applyRedo() !== null
+  }
+
+  /**
+   * Undo the last move in the model and charge it according to the undo rule
+   * @returns The undone move, or null if there was nothing to undo
+   */
+  protected applyUndo(): MoveRecord | RotationMove | null {
+    const move = this.model?.undo()
+    if (!move) return null
+    
+    this.finishHistoryStep(move, true)
+    
+    return move
+  }
+
+  /**
+   * Redo the last undone move in the model
+   * @returns The redone move, or null if there was nothing to redo
+   */
+  protected applyRedo(): MoveRecord | RotationMove | null {
+    const move = this.model?.redo()
+    if (!move) return null
+    
+    this.finishHistoryStep(move, false)
+    
+    return move
+  }
+
+  /**
+   * Refresh the view after an undo or redo and block input while it animates
+   * @param undone Whether the move was taken back rather than replayed
+   */
+  private finishHistoryStep(move: MoveRecord | RotationMove, undone: boolean): void {
+    this.isMoving = true
+    this.solverService.cancel()
+    
+    let distance: number
+    if ('axis' in move) {
+      // An undone rotation turns the other way
+      this.updateBoard(undone ? { ...move, offset: -move.offset } : move)
+      distance = Math.abs(move.offset)
+    } else {
+      this.updateBoard()
+      distance = Math.abs(move.tile.row - move.empty.row) + Math.abs(move.tile.col - move.empty.col)
+    }
+    
+    const animationDuration = distance > 1 ? 350 : 250
+    setTimeout(() => {
+      this.isMoving = false
+    }, animationDuration)
+  }
+
+  /**
+   * Update the history length and undo/redo availability in the view
+   */
+  protected updateHistory(): void {
+    if (!this.model) return
+    
+    const allowed = this.settings.undoRule !== 'disabled'
+    this.view.updateHistory(
+      this.model.getHistory().length,
+      allowed && this.model.canUndo(),
+      allowed && this.model.canRedo()
+    )
+    this.view.showMoveNotation(this.model instanceof PuzzleModel ? this.model.getNotation() : '')
+  }
+
+  /**
+   * Show how close the board is to the goal
+   */
+  protected updateProgress(): void {
+    if (!this.model) return
+    
+    this.view.updateProgress(this.model.getProgress())
+  }
+
+  /**
+   * Copy the moves made so far to the clipboard in move notation
+   */
+  protected async copyMoves(): Promise<void> {
+    if (!(this.model instanceof PuzzleModel)) return
+    
+    const notation = this.model.getNotation()
+    if (!notation) {
+      this.view.showStatusMessage('No moves to copy yet')
+      return
+    }
+    
+    try {
+      await navigator.clipboard.writeText(notation)
+      this.view.showStatusMessage('Moves copied')
+    } catch (error) {
+      console.error("Failed to copy moves:", error)
+      this.view.showStatusMessage('Could not copy the moves')
+    }
+  }
+
+  /**
+   * Get the handlers for the undo and redo buttons
+   */
+  protected getHistoryHandlers(): HistoryHandlers {
+    return {
+      undo: () => this.undoMove(),
+      redo: () => this.redoMove()
+    }
+  }
+
+  /**
+   * Get the handlers for the blindfold buttons; the plain game has no blindfold mode
+   */
+  protected getBlindfoldHandlers(): BlindfoldHandlers | undefined {
+    return undefined
+  }
+
   /**
    * Return to welcome screen
    */
   protected backToWelcome(): void {
     this.exitFullscreen()
     this.gameStarted = false
+    this.solverService.cancel()
     
     // Remove resize listener when returning to welcome screen
     window.removeEventListener('resize', this.resizeHandler)
@@ -152,16 +422,166 @@ export class GameController {
     this.start()
   }
 
+  /**
+   * Compute a solution for the current board in the background.
+   * Tile clicks stay responsive; making a move cancels the request.
+   * @returns The solver result, or null if the solve was cancelled
+   */
+  protected async requestSolution(onProgress?: (progress: SolverProgress) => void): Promise<SolverResult | null> {
+    if (!(this.model instanceof PuzzleModel)) return null
+    
+    try {
+      // Locked tiles are walls to the solver, just like blocked cells
+      const { board, goal } = this.model.getSolverBoards()
+      return await this.solverService.solve(board, { goal, onProgress })
+    } catch (error) {
+      if (error instanceof SolverCancelledError) return null
+      throw error
+    }
+  }
+
+  /**
+   * Highlight the next tile to move on the way to the solution
+   */
+  protected async showHint(): Promise<void> {
+    if (!this.model || this.model.isSolved()) return
+    
+    this.view.showStatusMessage('Thinking...')
+    
+    try {
+      const result = await this.requestSolution((progress) => {
+        this.view.showStatusMessage(`Thinking... (depth ${progress.bound})`)
+      })
+      if (!result) {
+        // Cancelled: leave the status to a newer hint, or to a move that solved the puzzle
+        if (!this.solverService.isSolving() && !this.model?.isSolved()) this.view.clearStatusMessage()
+        return
+      }
+      
+      if (result.moves.length === 0) {
+        this.view.showStatusMessage('No hint available')
+        return
+      }
+      
+      const { row, col } = result.moves[0]
+      this.view.highlightTile(row, col)
+      this.view.showStatusMessage(result.solved ?
+        `Hint: ${result.moves.length} moves to go` :
+        `Hint: at least ${result.bound} moves to go`)
+    } catch (error) {
+      console.error("Failed to compute hint:", error)
+      this.view.showStatusMessage('No hint available')
+    }
+  }
+
+  /**
+   * Let the player pick a picture for the tiles
+   */
+  protected choosePicture(): void {
+    if (!this.model) return
+    
+    this.view.showImagePicker(this.model.getSize(), this.pictureChoice, (choice) => {
+      this.pictureChoice = choice
+      this.applyPicture()
+    })
+  }
+
+  /**
+   * Crop the chosen picture for the current board and show it on the tiles
+   * @returns The picture shown, or null when the tiles show numbers only
+   */
+  protected async applyPicture(): Promise<PuzzleImage | null> {
+    if (!this.model) return null
+    
+    let image: PuzzleImage | null = null
+    if (this.pictureChoice) {
+      try {
+        image = await createPuzzleImage(this.pictureChoice, this.model.getSize())
+      } catch (error) {
+        console.error("Failed to prepare picture:", error)
+        this.view.showStatusMessage('The picture could not be loaded')
+      }
+    }
+    
+    this.view.setTileImage(image)
+    return image
+  }
+
+  /**
+   * Show the current goal and locked tiles in the view; the standard layout
+   * without obstacles needs no preview
+   */
+  protected updateGoal(): void {
+    if (!this.model) return
+    
+    const preview = this.model.variant === 'sliding' &&
+      (this.settings.goalLayout !== 'standard' || this.settings.obstacles !== 'none')
+    this.view.setGoal(this.model.getGoal(), preview)
+    this.view.setLockedTiles(this.model instanceof PuzzleModel ? this.model.getLockedTiles() : [])
+  }
+
   /**
    * Update the board display based on model state
+   * @param rotation Loopover rotation that led to the current board, for the animation
    */
-  protected updateBoard(): void {
+  protected updateBoard(rotation?: RotationMove): void {
     if (!this.model) return
     
+    if (this.model.variant === 'loopover') {
+      this.view.updateLoopoverBoard(
+        this.model.getBoard(),
+        (axis, index, offset) => this.handleRotation(axis, index, offset),
+        rotation
+      )
+      return
+    }
+    
     this.view.updateBoard(
       this.model.getBoard(),
       (row, col) => this.handleTileClick(row, col)
     )
+    this.updateTutor()
+  }
+
+  /**
+   * Check whether the tutor can teach a puzzle: it follows the human method
+   * for the standard goal, without blocked cells or locked tiles
+   */
+  protected canTutor(model: GamePuzzle): boolean {
+    if (!(model instanceof PuzzleModel) || model.getLockedTiles().length > 0) return false
+    
+    return createStateKey(model.getGoal()) === createStateKey(createSolvedBoard(model.getRows(), model.getCols()))
+  }
+
+  /**
+   * Switch the tutor on or off
+   */
+  protected toggleTutor(): void {
+    this.tutorActive = !this.tutorActive
+    this.view.setTutorActive(this.tutorActive)
+    
+    if (this.tutorActive) {
+      this.updateTutor()
+    } else {
+      this.view.clearTutor()
+    }
+  }
+
+  /**
+   * Show the tutor's current step for the board, if the tutor is on
+   */
+  private updateTutor(): void {
+    if (!this.tutorActive || !(this.model instanceof PuzzleModel)) return
+    
+    const board = this.model.getBoard()
+    const step = getTutorStep(board)
+    if (!step) {
+      this.view.clearTutor()
+      return
+    }
+    
+    const nextMove = step.moves[0]
+    this.view.showTutorStep(step, nextMove ? board[nextMove.row][nextMove.col] : null)
   }
 
   /**
@@ -190,54 +610,161 @@ export class GameController {
    * Set up keyboard event handlers
    */
   protected setupKeyboardHandlers(): void {
+    // start() runs again on every return to the welcome screen; only listen once
+    if (this.keyboardHandlersReady) return
+    this.keyboardHandlersReady = true
+    
     document.addEventListener('keydown', (e) => {
       if (e.key === 'Escape' && this.gameStarted && document.fullscreenElement) {
         // Just exit fullscreen, don't exit the game
         this.exitFullscreen()
       }
+      
+      if (!this.gameStarted || !this.model || !(e.ctrlKey || e.metaKey)) return
+      
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        this.undoMove()
+        e.preventDefault()
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        this.redoMove()
+        e.preventDefault()
+      }
     })
   }
 
   /**
    * Get the current model
    */
-  protected getModel(): PuzzleModel | null {
+  protected getModel(): GamePuzzle | null {
     return this.model;
   }
 
   /**
    * Set a new model
    */
-  protected setModel(model: PuzzleModel): void {
+  protected setModel(model: GamePuzzle): void {
     this.model = model;
+    this.observeModel(model);
   }
 
   /**
-   * Get the dimension select element
+   * Get the welcome screen settings controls
    */
-  protected getDimensionSelect(): HTMLSelectElement | null {
-    return this.dimensionSelect;
+  protected getWelcomeControls(): WelcomeControls | null {
+    return this.welcomeControls;
   }
 
   /**
-   * Set the dimension select element
+   * Set the welcome screen settings controls
    */
-  protected setDimensionSelect(select: HTMLSelectElement): void {
-    this.dimensionSelect = select;
+  protected setWelcomeControls(controls: WelcomeControls): void {
+    this.welcomeControls = controls;
   }
 
   /**
-   * Get the view
+   * Get the board size chosen in the size selector
    */
-  protected getView(): PuzzleView {
-    return this.view;
+  protected getSelectedSize(): BoardSize {
+    return parseBoardSize(this.welcomeControls?.dimensionSelect.value ?? '3')
   }
 
   /**
-   * Reset the move count
+   * Get the seed from the challenge code entered on the welcome screen
+   * @returns The seed, or null if no valid code was entered
    */
-  protected resetMoveCount(): void {
-    this.moveCount = 0;
+  protected getSelectedSeed(): number | null {
+    return parseSeed(this.welcomeControls?.seedInput.value ?? '')
+  }
+
+  /**
+   * Get the goal board chosen on the welcome screen. Custom goals bring
+   * their own blocked cells; other layouts block the cells of the chosen obstacles.
+   * @returns The goal, or null if the custom goal entered is not valid
+   */
+  protected getSelectedGoal(size: BoardSize): number[][] | null {
+    const { goalLayout, obstacles } = this.getSelectedSettings()
+    
+    if (goalLayout === 'custom') {
+      return parseCustomGoal(this.welcomeControls?.customGoalInput.value ?? '', size)
+    }
+    
+    return createGoalBoard(size, goalLayout, getBlockedCells(size, obstacles))
+  }
+
+  /**
+   * Create the puzzle chosen on the welcome screen
+   * @returns The puzzle, or null if the custom goal entered is not valid
+   */
+  protected createSelectedPuzzle(size: BoardSize, settings: GameSettings): GamePuzzle | null {
+    if (settings.variant === 'loopover') {
+      return createPuzzle('loopover', size)
+    }
+    
+    const goal = this.getSelectedGoal(size)
+    if (!goal) return null
+    
+    try {
+      return createPuzzle('sliding', size, goal, getLockedTiles(goal, settings.obstacles))
+    } catch (error) {
+      // Blocked cells in a custom goal can cut the board apart
+      if (error instanceof InvalidBoardError) return null
+      throw error
+    }
+  }
+
+  /**
+   * Tell the player how to enter a custom goal for a board size
+   */
+  protected showInvalidGoal(size: BoardSize): void {
+    const cellCount = size.rows * size.cols
+    this.view.showError(`Enter the custom goal as the ${cellCount} cells row by row: # for a blocked cell, 0 for the empty space and each number from 1 up to the number of tiles once. Blocked cells must not cut the board apart.`)
+  }
+
+  /**
+   * Get the game settings chosen on the welcome screen
+   */
+  protected getSelectedSettings(): GameSettings {
+    const variant = this.welcomeControls?.variantSelect.value
+    const undoRule = this.welcomeControls?.undoRuleSelect.value
+    const metric = this.welcomeControls?.metricSelect.value
+    const matchMode = this.welcomeControls?.matchModeSelect?.value
+    const difficulty = this.welcomeControls?.difficultySelect.value
+    const goalLayout = this.welcomeControls?.goalSelect.value
+    const obstacles = this.welcomeControls?.obstacleSelect.value
+    
+    return {
+      ...this.settings,
+      variant: isPuzzleVariant(variant) ? variant : DEFAULT_GAME_SETTINGS.variant,
+      undoRule: isUndoRule(undoRule) ? undoRule : DEFAULT_GAME_SETTINGS.undoRule,
+      metric: isMoveMetric(metric) ? metric : DEFAULT_GAME_SETTINGS.metric,
+      difficulty: isDifficulty(difficulty) ? difficulty : DEFAULT_GAME_SETTINGS.difficulty,
+      goalLayout: isGoalLayout(goalLayout) ? goalLayout : DEFAULT_GAME_SETTINGS.goalLayout,
+      obstacles: isObstacleLayout(obstacles) ? obstacles : DEFAULT_GAME_SETTINGS.obstacles,
+      matchMode: isMatchMode(matchMode) ? matchMode : this.settings.matchMode
+    }
+  }
+
+  /**
+   * Get the rules of the current game
+   */
+  protected getSettings(): GameSettings {
+    return this.settings;
+  }
+
+  /**
+   * Set the rules of the current game
+   */
+  protected setSettings(settings: GameSettings): void {
+    this.settings = settings;
+    this.view.setMoveMetric(settings.metric);
+  }
+
+  /**
+   * Get the view
+   */
+  protected getView(): PuzzleView {
+    return this.view;
   }
 
   /**
@@ -247,6 +774,13 @@ export class GameController {
     return this.gameStarted;
   }
 
+  /**
+   * Mark the game screen as shown, for games started without playPuzzle
+   */
+  protected setGameStarted(started: boolean): void {
+    this.gameStarted = started;
+  }
+
   /**
    * Setup resize handler
    */
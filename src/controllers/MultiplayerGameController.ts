@@ -1,7 +1,21 @@
 import { GameController } from './GameController';
-import { PeerService } from '../services/PeerService';
-import { PuzzleView } from '../views/PuzzleView';
-import { PuzzleModel } from '../models/PuzzleModel';
+import { PeerService, RECONNECT_GRACE_SECONDS } from '../services/PeerService';
+import { BlindfoldHandlers, PuzzleView } from '../views/PuzzleView';
+import { BoardSize, InvalidBoardError, PuzzleModel } from '../models/PuzzleModel';
+import { GameSettings, countMoves } from '../models/GameSettings';
+import { GamePuzzle, GameSnapshot, MoveCounters, ProgressMetrics, createPuzzle, restoreGameSnapshot } from '../models/Puzzle';
+import { getLockedTiles } from '../models/ObstacleLayout';
+import { RotationAxis } from '../models/LoopoverModel';
+import { PuzzleImage } from '../utils/image';
+import { DAILY_GAME_SETTINGS, getDailySeed, getDayKey } from '../models/DailyPuzzle';
+import { DailyResultsService } from '../services/DailyResultsService';
+import { DRILL_GAME_SETTINGS, DrillType, createDrillBoard, isDrillAvailable } from '../models/Drill';
+import { DrillStatsService } from '../services/DrillStatsService';
+import { BlindfoldPhase, BlindfoldResult, INSPECTION_SECONDS, PEEK_PENALTY_SECONDS, PEEK_SECONDS } from '../models/Blindfold';
+import { BlindfoldResultsService } from '../services/BlindfoldResultsService';
+import { RaceResult, RaceWinner, SolutionStep, getSolution, isTallyOfSolution, verifySolution } from '../models/Race';
+import { HASH_CHECK_SECONDS, MoveSequencer, SharedAction, isStaleAction } from '../models/SharedBoard';
+import { parseBoardSize } from '../utils/helpers';
 
 /**
  * Controller class that handles multiplayer game logic
@@ -10,13 +24,31 @@ export class MultiplayerGameController extends GameController {
   private peerService: PeerService;
   private multiplayerView: PuzzleView;
   private isMultiplayerActive: boolean = false;
-  private receivedMove: boolean = false;
   private opponentSolved: boolean = false;
   private waitingForPeerId: string | null = null;
   private isInitialized: boolean = false;
   private pendingCallbacks: (() => void)[] = [];
   private isHost: boolean = false;
   private gameStartTime: number = 0;
+  private dailyResults: DailyResultsService = new DailyResultsService();
+  private dailyDay: string | null = null;
+  private dailyRetry: boolean = false;
+  private drillStats: DrillStatsService = new DrillStatsService();
+  private drill: DrillType | null = null;
+  private drillSolved: boolean = false;
+  private blindfoldResults: BlindfoldResultsService = new BlindfoldResultsService();
+  private blindfoldPhase: BlindfoldPhase | null = null;
+  private blindfoldPeeks: number = 0;
+  private inspectionTimer: number | null = null;
+  private peekTimer: number | null = null;
+  private raceStartBoard: number[][] | null = null;
+  private raceResult: RaceResult | null = null;
+  private raceClaim: { moves: number; timeSeconds: number; solution: SolutionStep[]; counters: MoveCounters } | null = null;
+  private sequencer: MoveSequencer = new MoveSequencer();
+  private resyncSequence: number = 0;
+  private guestLag: { sequence: number; since: number } | null = null;
+  private hashCheckTimer: number | null = null;
+  private reconnectTimer: number | null = null;
 
   /**
    * Create a multiplayer game controller
@@ -103,18 +135,44 @@ export class MultiplayerGameController extends GameController {
     });
     
     // Handle game start
-    this.peerService.onGameStart((dimension, board) => {
-      this.handleReceivedGameStart(dimension, board);
+    this.peerService.onGameStart((size, board, settings, seed, goal) => {
+      this.handleReceivedGameStart(size, board, settings, seed, goal);
     });
 
-    // Handle move received
-    this.peerService.onMoveMade((row, col) => {
-      this.handleReceivedMove(row, col);
+    // Handle actions on a shared board: requests reach the host, and the
+    // host's ordered actions and refusals reach the guest
+    this.peerService.onActionRequest((action, sequence) => {
+      this.handleActionRequest(action, sequence);
+    });
+    this.peerService.onAction((action, sequence) => {
+      this.handleReceivedAction(action, sequence);
+    });
+    this.peerService.onActionRejected(() => {
+      this.handleActionRejected();
+    });
+
+    // Handle board checks on a shared board: the guest's hashes reach the
+    // host, and the host's snapshots reach the guest
+    this.peerService.onBoardHash((sequence, hash) => {
+      this.handleBoardHash(sequence, hash);
+    });
+    this.peerService.onSnapshot((snapshot, sequence, elapsedSeconds) => {
+      this.handleReceivedSnapshot(snapshot, sequence, elapsedSeconds);
     });
 
     // Handle game won notification
-    this.peerService.onGameWon((playerName, moves, timeSeconds) => {
-      this.handleOpponentWon(playerName, moves, timeSeconds);
+    this.peerService.onGameWon((playerName, moves, timeSeconds, solution, counters) => {
+      this.handleOpponentWon(playerName, moves, timeSeconds, solution, counters);
+    });
+
+    // Handle the host's decision on who won a race
+    this.peerService.onRaceResult((winner, playerName, moves, timeSeconds) => {
+      this.handleRaceResult(winner, playerName, moves, timeSeconds);
+    });
+
+    // Handle opponent progress
+    this.peerService.onProgress((playerName, progress) => {
+      this.handleOpponentProgress(playerName, progress);
     });
 
     // Handle reset game
@@ -122,11 +180,29 @@ export class MultiplayerGameController extends GameController {
       this.handleReceivedReset();
     });
 
+    // Handle picture changes
+    this.peerService.onPuzzleImage((image) => {
+      this.handleReceivedPuzzleImage(image);
+    });
+
     // Handle connection status changes
     this.peerService.onConnectionStatus((isConnected, isHost) => {
       this.handleConnectionStatus(isConnected, isHost);
     });
 
+    // Handle the other player dropping out of a match and coming back
+    this.peerService.onConnectionLost(() => {
+      this.handleConnectionLost();
+    });
+
+    this.peerService.onConnectionResumed(() => {
+      this.handleConnectionResumed();
+    });
+
+    this.peerService.onPeerLeft(() => {
+      this.handlePeerLeft();
+    });
+
     // Handle errors
     this.peerService.onError((error) => {
       this.multiplayerView.showError(error);
@@ -181,25 +257,51 @@ export class MultiplayerGameController extends GameController {
   override start(): void {
     // Reset multiplayer state
     this.isMultiplayerActive = false;
-    this.receivedMove = false;
     this.opponentSolved = false;
     this.waitingForPeerId = null;
+    this.dailyDay = null;
+    this.drill = null;
+    this.stopBlindfold();
+    this.stopHashChecks();
+    this.clearReconnectTimer();
+    this.multiplayerView.hideReconnecting();
     
-    // Render the welcome screen immediately and store the dimension selector
-    // in the parent class property so it can be accessed later
-    const dimensionSelect = this.multiplayerView.renderMultiplayerWelcomeScreen(
+    // Render the welcome screen immediately and store the settings controls
+    // in the parent class property so they can be accessed later
+    const welcomeControls = this.multiplayerView.renderMultiplayerWelcomeScreen(
       () => this.startSinglePlayerGame(),
-      () => this.whenInitialized(() => this.showConnectionScreen()),
-      3
+      () => this.playTogether(),
+      { rows: 3, cols: 3 },
+      this.getSettings(),
+      () => this.startDailyGame(),
+      () => this.showDrillScreen(),
+      () => this.startBlindfoldGame()
     );
     
-    // Save the dimension select element for later use
-    this.setDimensionSelect(dimensionSelect);
+    // Save the settings controls for later use
+    this.setWelcomeControls(welcomeControls);
+    
+    // Today's daily puzzle depends on the chosen size
+    welcomeControls.dimensionSelect.addEventListener('change', () => this.updateDailyStatus());
+    this.updateDailyStatus();
     
     // Set up keyboard handler for fullscreen escape
     this.setupKeyboardHandlers();
   }
 
+  /**
+   * Check the chosen settings, then go to the connection screen
+   */
+  private playTogether(): void {
+    const size = this.getSelectedSize();
+    if (!this.createSelectedPuzzle(size, this.getSelectedSettings())) {
+      this.showInvalidGoal(size);
+      return;
+    }
+    
+    this.whenInitialized(() => this.showConnectionScreen());
+  }
+
   /**
    * Show the connection screen
    */
@@ -278,6 +380,236 @@ export class MultiplayerGameController extends GameController {
     this.startGame();
   }
 
+  /**
+   * Start today's daily puzzle for the chosen size, unless it is already solved
+   */
+  private startDailyGame(): void {
+    const size = this.getSelectedSize();
+    const day = getDayKey();
+    if (this.dailyResults.getResult(day, size)) {
+      this.updateDailyStatus();
+      return;
+    }
+    
+    this.isMultiplayerActive = false;
+    this.dailyDay = day;
+    this.playPuzzle(size, createPuzzle(DAILY_GAME_SETTINGS.variant, size), DAILY_GAME_SETTINGS, getDailySeed(day, size));
+  }
+
+  /**
+   * Show the drill selection screen for the size chosen on the welcome screen
+   */
+  private showDrillScreen(): void {
+    const sizeSelect = this.multiplayerView.renderDrillScreen(
+      this.getSelectedSize(),
+      drill => this.startDrill(drill, parseBoardSize(sizeSelect.value)),
+      () => this.start()
+    );
+    
+    sizeSelect.addEventListener('change', () => this.updateDrillStats(parseBoardSize(sizeSelect.value)));
+    this.updateDrillStats(parseBoardSize(sizeSelect.value));
+  }
+
+  /**
+   * Show the statistics of every drill for a board size
+   */
+  private updateDrillStats(size: BoardSize): void {
+    const stats = {
+      'last-two-rows': this.drillStats.getStats('last-two-rows', size),
+      'final-3x2': this.drillStats.getStats('final-3x2', size),
+      'last-2x2': this.drillStats.getStats('last-2x2', size),
+      'corner-case': this.drillStats.getStats('corner-case', size)
+    };
+    this.multiplayerView.showDrillStats(size, stats, isDrillAvailable(size));
+  }
+
+  /**
+   * Start practising a drill; each reset deals a new drill board
+   */
+  private startDrill(drill: DrillType, size: BoardSize): void {
+    if (!isDrillAvailable(size)) {
+      this.updateDrillStats(size);
+      return;
+    }
+    
+    this.isMultiplayerActive = false;
+    this.dailyDay = null;
+    this.drill = drill;
+    this.playPuzzle(size, new PuzzleModel(size.rows, size.cols), DRILL_GAME_SETTINGS, null);
+  }
+
+  /**
+   * Store the time of a solved drill board and show the drill's record.
+   * Solving the same board again after an undo does not count twice.
+   */
+  private recordDrillSolve(drill: DrillType): void {
+    const moves = this.getMoveCount();
+    const timeSeconds = Math.round((Date.now() - this.gameStartTime) / 1000);
+    
+    if (this.drillSolved) {
+      this.showSuccessMessage(moves, timeSeconds);
+      return;
+    }
+    
+    this.drillSolved = true;
+    const stats = this.drillStats.recordSolve(drill, this.getModel()!.getSize(), timeSeconds);
+    this.multiplayerView.showDrillSolved(drill, moves, timeSeconds, stats);
+  }
+
+  /**
+   * Start a blindfold solve of a puzzle with the chosen settings
+   */
+  private startBlindfoldGame(): void {
+    this.isMultiplayerActive = false;
+    this.blindfoldPhase = 'inspecting';
+    this.startGame();
+    
+    // An invalid goal keeps the welcome screen up
+    if (!this.isGameStarted()) {
+      this.blindfoldPhase = null;
+    }
+  }
+
+  /**
+   * Show the freshly scrambled board for the inspection time, then hide it
+   */
+  private beginInspection(): void {
+    this.clearBlindfoldTimers();
+    this.blindfoldPhase = 'inspecting';
+    this.blindfoldPeeks = 0;
+    this.multiplayerView.setBlindfoldPhase('inspecting');
+    
+    let secondsLeft = INSPECTION_SECONDS;
+    this.multiplayerView.showInspectionCountdown(secondsLeft);
+    this.inspectionTimer = window.setInterval(() => {
+      secondsLeft--;
+      if (secondsLeft > 0) {
+        this.multiplayerView.showInspectionCountdown(secondsLeft);
+      } else {
+        this.startBlindfoldSolve();
+      }
+    }, 1000);
+  }
+
+  /**
+   * End the inspection: hide the tile labels and start the clock
+   */
+  private startBlindfoldSolve(): void {
+    if (this.blindfoldPhase !== 'inspecting') return;
+    
+    this.clearBlindfoldTimers();
+    this.blindfoldPhase = 'solving';
+    this.multiplayerView.setBlindfoldPhase('solving');
+    this.multiplayerView.clearStatusMessage();
+    this.gameStartTime = Date.now();
+  }
+
+  /**
+   * Show the tile labels for a moment, adding a time penalty
+   */
+  private peekBlindfold(): void {
+    if (this.blindfoldPhase !== 'solving' || this.peekTimer !== null) return;
+    
+    this.blindfoldPeeks++;
+    this.multiplayerView.setPeeking(true);
+    this.multiplayerView.showStatusMessage(`Peek ${this.blindfoldPeeks}: +${PEEK_PENALTY_SECONDS} s`);
+    this.peekTimer = window.setTimeout(() => {
+      this.peekTimer = null;
+      this.multiplayerView.setPeeking(false);
+    }, PEEK_SECONDS * 1000);
+  }
+
+  /**
+   * Store a finished blindfold solve and show the labels again
+   */
+  private recordBlindfoldResult(): void {
+    this.clearBlindfoldTimers();
+    this.blindfoldPhase = 'done';
+    this.multiplayerView.setBlindfoldPhase('done');
+    
+    const model = this.getModel()!;
+    const result: BlindfoldResult = {
+      solvedAt: Date.now(),
+      variant: model.variant,
+      rows: model.getRows(),
+      cols: model.getCols(),
+      moves: this.getMoveCount(),
+      metric: this.getSettings().metric,
+      timeSeconds: Math.round((Date.now() - this.gameStartTime) / 1000),
+      peeks: this.blindfoldPeeks
+    };
+    const previousBest = this.blindfoldResults.getBest(result.variant, model.getSize());
+    
+    this.blindfoldResults.saveResult(result);
+    this.multiplayerView.showBlindfoldSolved(result, previousBest);
+  }
+
+  /**
+   * Stop the inspection countdown and any peek in progress
+   */
+  private clearBlindfoldTimers(): void {
+    if (this.inspectionTimer !== null) {
+      clearInterval(this.inspectionTimer);
+      this.inspectionTimer = null;
+    }
+    if (this.peekTimer !== null) {
+      clearTimeout(this.peekTimer);
+      this.peekTimer = null;
+    }
+  }
+
+  /**
+   * Leave blindfold mode
+   */
+  private stopBlindfold(): void {
+    this.clearBlindfoldTimers();
+    this.blindfoldPhase = null;
+  }
+
+  /**
+   * Show whether today's daily puzzle for the chosen size is solved
+   */
+  private updateDailyStatus(): void {
+    const size = this.getSelectedSize();
+    const day = getDayKey();
+    this.multiplayerView.showDailyStatus(
+      size,
+      this.dailyResults.getResult(day, size),
+      this.dailyResults.getStreak(day),
+      this.dailyResults.hasAttempt(day, size)
+    );
+  }
+
+  /**
+   * Store the result of a solved daily puzzle and show the streak
+   */
+  private recordDailyResult(day: string): void {
+    const model = this.getModel()!;
+    const moves = this.getMoveCount();
+    const timeSeconds = Math.round((Date.now() - this.gameStartTime) / 1000);
+    
+    if (this.dailyRetry) {
+      this.multiplayerView.showDailyPracticeSolved(moves, timeSeconds);
+      return;
+    }
+    
+    const saved = this.dailyResults.saveResult({
+      day,
+      rows: model.getRows(),
+      cols: model.getCols(),
+      moves,
+      metric: this.getSettings().metric,
+      timeSeconds
+    });
+    
+    // Only the first solve counts; later ones are shown like any other game
+    if (saved) {
+      this.multiplayerView.showDailySolved(moves, timeSeconds, this.dailyResults.getStreak(day));
+    } else {
+      this.showSuccessMessage(moves, timeSeconds);
+    }
+  }
+
   /**
    * Start multiplayer game as the host
    */
@@ -285,90 +617,121 @@ export class MultiplayerGameController extends GameController {
     // Prepare UI for game start
     this.prepareGameUI();
     
-    const dimensionSelect = this.getDimensionSelect();
-    console.log("Dimension select element:", dimensionSelect);
+    const size = this.getSelectedSize();
     
-    const dimension = dimensionSelect ? 
-      parseInt(dimensionSelect.value) : 3;
+    console.log("Selected size:", size);
     
-    console.log("Selected dimension:", dimension);
-    
-    // Create a new puzzle model with the selected dimension
-    this.setModel(new PuzzleModel(dimension));
-    this.resetMoveCount();
+    // Create a new puzzle model with the selected size; the host's rules and goal apply to both players
+    const settings = this.getSelectedSettings();
+    this.setModel(this.createSelectedPuzzle(size, settings) ?? createPuzzle(settings.variant, size));
+    this.setSettings(settings);
     
     // Record game start time
     this.gameStartTime = Date.now();
+    this.setGameStarted(true);
     
     // Enter fullscreen and render game UI with multiplayer indicators
     this.enterFullscreen();
     this.multiplayerView.renderMultiplayerGameUI(
-      dimension,
+      size,
       () => this.resetGame(),
       () => this.backToWelcome(),
       this.peerService.getPlayerName(),
-      'Opponent'
+      'Opponent',
+      this.getHistoryHandlers(),
+      () => this.choosePicture(),
+      this.getModel() instanceof PuzzleModel ? () => this.copyMoves() : undefined
     );
+    this.updateGoal();
     
     // Setup window resize handler
     this.setupResizeHandler();
     
     // Update and render the board
     this.updateBoard();
-    console.log("Host game: updateBoard called with dimension", dimension);
+    console.log("Host game: updateBoard called with size", size);
     
     // Force a resize to ensure board is correctly sized
     this.multiplayerView.handleResize();
     console.log("Host game: handleResize called");
     
-    // Shuffle the puzzle to start
-    this.resetGame();
+    // Shuffle the puzzle to start, from the challenge code if one was entered
+    this.resetGame(this.getSelectedSeed() ?? undefined);
     
     // Send the game start info to the peer
     this.peerService.startGame(
-      dimension,
-      this.getModel()!.getBoard()
+      size,
+      this.getModel()!.getBoard(),
+      this.getSettings(),
+      this.getModel()!.getSeed(),
+      this.getModel()!.getGoal()
     );
+    
+    // Show the host's picture on both boards
+    this.applyPicture();
   }
 
   /**
    * Handle game start info received from host
    */
-  private handleReceivedGameStart(dimension: number, board: number[][]): void {
+  private handleReceivedGameStart(
+    size: BoardSize,
+    board: number[][],
+    settings: GameSettings,
+    seed: number | null,
+    goal: number[][] | null
+  ): void {
     // Prepare UI for game start
     this.prepareGameUI();
     
-    // Create a new puzzle model with the received board
-    const model = new PuzzleModel(dimension);
+    // Load the host's goal and board, refusing anything malformed or unsolvable
+    let model: GamePuzzle;
+    try {
+      const locked = goal ? getLockedTiles(goal, settings.obstacles) : undefined;
+      model = createPuzzle(settings.variant, size, goal ?? undefined, locked);
+      model.loadBoard(board, seed);
+    } catch (error) {
+      if (error instanceof InvalidBoardError) {
+        console.error("Rejected game start from host:", error.reason, error.message);
+        this.multiplayerView.showError(`Received an invalid puzzle from the other player: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
     
     // Record game start time
     this.gameStartTime = Date.now();
-    
-    // Override the board with the one from the host
-    // This is a hack - should add a proper method to PuzzleModel
-    const modelAny = model as any;
-    modelAny.board = board;
-    modelAny.emptyPosition = this.findEmptyPosition(board);
+    this.setGameStarted(true);
     
     this.setModel(model);
-    this.resetMoveCount();
+    this.setSettings(settings);
+    this.sequencer.reset();
+    this.beginRace(board);
+    this.startHashChecks();
     
     // Enter fullscreen and render game UI
     this.enterFullscreen();
     this.multiplayerView.renderMultiplayerGameUI(
-      dimension,
+      size,
       () => this.resetGame(),
       () => this.backToWelcome(),
       this.peerService.getPlayerName(),
-      'Opponent'
+      'Opponent',
+      this.getHistoryHandlers(),
+      () => this.choosePicture(),
+      this.getModel() instanceof PuzzleModel ? () => this.copyMoves() : undefined
     );
+    this.updateGoal();
     
     // Setup window resize handler
     this.setupResizeHandler();
     
     // Update and render the board
     this.updateBoard();
-    console.log("Client game: updateBoard called with dimension", dimension);
+    this.updateHistory();
+    this.multiplayerView.updateProgress(model.getProgress());
+    this.multiplayerView.showSeed(model.getSeed());
+    console.log("Client game: updateBoard called with size", size);
     
     // Force a resize to ensure board is correctly sized
     this.multiplayerView.handleResize();
@@ -376,83 +739,377 @@ export class MultiplayerGameController extends GameController {
   }
 
   /**
-   * Find the empty position in a board
+   * Override to handle multiplayer logic for tile clicks
    */
-  private findEmptyPosition(board: number[][]): { row: number; col: number } {
-    for (let row = 0; row < board.length; row++) {
-      for (let col = 0; col < board[0].length; col++) {
-        if (board[row][col] === 0) {
-          return { row, col };
-        }
-      }
+  protected override handleTileClick(row: number, col: number): boolean {
+    const model = this.getModel();
+    if (!(model instanceof PuzzleModel) || !model.canMoveTile(row, col)) return false;
+    
+    // Check before moving: afterwards the empty space is where the tile was
+    const action: SharedAction = { kind: 'move', row, col, empty: model.getEmptyPosition() };
+    if (this.requestSharedAction(action)) return false;
+    
+    // Moving during inspection ends it early
+    this.startBlindfoldSolve();
+    
+    // Call the parent method to handle the actual move
+    const moved = super.handleTileClick(row, col);
+    
+    if (moved) {
+      this.shareAction(action);
     }
     
-    // Default to bottom right if not found
-    return { row: board.length - 1, col: board[0].length - 1 };
+    return moved;
   }
 
   /**
-   * Override to handle multiplayer logic for tile clicks
+   * Override to share loopover rotations with the peer
    */
-  protected override handleTileClick(row: number, col: number): void {
-    if (this.isMultiplayerActive && this.receivedMove) {
-      // Ignore clicks if we're processing a received move
-      this.receivedMove = false;
+  protected override handleRotation(axis: RotationAxis, index: number, offset: number): boolean {
+    const action: SharedAction = { kind: 'rotation', axis, index, offset };
+    if (this.requestSharedAction(action)) return false;
+    
+    this.startBlindfoldSolve();
+    const rotated = super.handleRotation(axis, index, offset);
+    
+    if (rotated) {
+      this.shareAction(action);
+    }
+    
+    return rotated;
+  }
+
+  /**
+   * Override to announce a win to the peer when our own move solved the puzzle
+   */
+  protected override handleSolved(): void {
+    if (this.dailyDay) {
+      this.recordDailyResult(this.dailyDay);
       return;
     }
     
-    // Call the parent method to handle the actual move
-    super.handleTileClick(row, col);
+    if (this.drill) {
+      this.recordDrillSolve(this.drill);
+      return;
+    }
+    
+    if (this.blindfoldPhase === 'solving') {
+      this.recordBlindfoldResult();
+      return;
+    }
+    
+    if (!this.isMultiplayerActive) {
+      super.handleSolved();
+      return;
+    }
+    
+    // Calculate time taken
+    const endTime = Date.now();
+    const timeSeconds = Math.round((endTime - this.gameStartTime) / 1000);
+    const moves = this.getMoveCount();
+    
+    if (this.isRace()) {
+      this.finishRace(moves, timeSeconds);
+      return;
+    }
+    
+    // A shared board is solved together, by whoever made the last move
+    this.showSuccessMessage(moves, timeSeconds);
+  }
+
+  /**
+   * Override to keep the peer informed of how close we are to solving
+   */
+  protected override updateProgress(): void {
+    super.updateProgress();
+    
+    // On a shared board the peer sees the same progress already
+    const model = this.getModel();
+    if (model && this.isRace()) {
+      this.peerService.sendProgress(model.getProgress());
+    }
+  }
+
+  /**
+   * Override to share undos with the peer
+   */
+  protected override undoMove(): boolean {
+    if (this.getModel()?.canUndo() && this.requestSharedAction({ kind: 'undo' })) return false;
+    
+    const undone = super.undoMove();
+    
+    if (undone) {
+      this.shareAction({ kind: 'undo' });
+    }
+    
+    return undone;
+  }
+
+  /**
+   * Override to share redos with the peer
+   */
+  protected override redoMove(): boolean {
+    if (this.getModel()?.canRedo() && this.requestSharedAction({ kind: 'redo' })) return false;
+    
+    const redone = super.redoMove();
+    
+    if (redone) {
+      this.shareAction({ kind: 'redo' });
+    }
+    
+    return redone;
+  }
+
+  /**
+   * On a shared board the guest does not change its own board: it asks the
+   * host, who puts every action in one order and sends it back
+   * @returns true if the action was sent to the host instead of applied
+   */
+  private requestSharedAction(action: SharedAction): boolean {
+    if (!this.isSharedBoard() || this.isHost) return false;
+    
+    const undoing = action.kind === 'undo' || action.kind === 'redo';
+    if (!undoing || this.getSettings().undoRule !== 'disabled') {
+      this.peerService.requestAction(action, this.sequencer.getSequence());
+    }
+    
+    return true;
+  }
+
+  /**
+   * Number an action the host applied on a shared board and send it to the guest
+   */
+  private shareAction(action: SharedAction): void {
+    if (!this.isSharedBoard() || !this.isHost) return;
+    
+    this.peerService.sendAction(action, this.sequencer.next(this.getModel()!.getHash()));
+  }
+
+  /**
+   * Apply an action on the shared board, whether or not a move is still
+   * animating
+   * @returns true if the board changed
+   */
+  private applySharedAction(action: SharedAction): boolean {
+    switch (action.kind) {
+      case 'move':
+        return this.applyMove(action.row, action.col);
+      case 'rotation':
+        return this.applyRotation(action.axis, action.index, action.offset) !== null;
+      case 'undo':
+        return this.applyUndo() !== null;
+      case 'redo':
+        return this.applyRedo() !== null;
+    }
+  }
+
+  /**
+   * Handle an action the guest asked for: apply it if it still fits the
+   * board and the rules, and send it back in order; otherwise turn it down
+   * @param sequence Number of the last action the guest had applied
+   */
+  private handleActionRequest(action: SharedAction, sequence: number): void {
+    const model = this.getModel();
+    if (!this.isSharedBoard() || !this.isHost || !model) return;
+    
+    const undoing = action.kind === 'undo' || action.kind === 'redo';
+    const allowed = !undoing || this.getSettings().undoRule !== 'disabled';
+    
+    if (!allowed || isStaleAction(model, action, sequence, this.sequencer.getSequence()) || !this.applySharedAction(action)) {
+      this.peerService.sendActionRejected(this.sequencer.getSequence());
+      return;
+    }
+    
+    this.shareAction(action);
+  }
+
+  /**
+   * Handle an action the host applied, in the host's order
+   */
+  private handleReceivedAction(action: SharedAction, sequence: number): void {
+    if (!this.isSharedBoard() || this.isHost) return;
+    
+    const due = this.sequencer.receive(sequence, action);
+    due.forEach(next => this.applySharedAction(next));
+    
+    // Let the host check that the boards still match after every move
+    if (due.length > 0) {
+      this.sendBoardHash();
+    }
+  }
+
+  /**
+   * Send the guest's board hash to the host every few seconds as well, so
+   * boards that drift apart are found even while nobody moves
+   */
+  private startHashChecks(): void {
+    this.stopHashChecks();
+    this.hashCheckTimer = window.setInterval(() => this.sendBoardHash(), HASH_CHECK_SECONDS * 1000);
+  }
+
+  /**
+   * Stop sending board hashes
+   */
+  private stopHashChecks(): void {
+    if (this.hashCheckTimer !== null) {
+      clearInterval(this.hashCheckTimer);
+      this.hashCheckTimer = null;
+    }
+  }
+
+  /**
+   * Send the guest's board hash, for the host to compare with its own
+   */
+  private sendBoardHash(): void {
+    const model = this.getModel();
+    if (!this.isSharedBoard() || this.isHost || !model) return;
     
-    // If in multiplayer mode, send the move to the peer
-    if (this.isMultiplayerActive && this.getModel()?.canMoveTile(row, col)) {
-      this.peerService.sendMove(row, col);
+    this.peerService.sendBoardHash(this.sequencer.getSequence(), model.getHash());
+  }
+
+  /**
+   * Compare the guest's board with the host's board after the same action,
+   * and send the host's game in progress if they differ, if the guest is
+   * stuck behind a lost action, or if its board is too old to compare
+   * @param sequence Number of the last action the guest had applied
+   */
+  private handleBoardHash(sequence: number, hash: number): void {
+    const model = this.getModel();
+    if (!this.isSharedBoard() || !this.isHost || !model) return;
+    
+    if (this.isGuestStuck(sequence)) {
+      console.warn(`Guest is still at action ${sequence}; sending a snapshot`);
+    } else {
+      // Hashes sent before the last snapshot arrived are out of date
+      const expected = this.sequencer.getHash(sequence);
+      if (sequence < this.resyncSequence || expected === hash) return;
       
-      // Check if the puzzle is solved after this move
-      if (this.getModel()?.isSolved()) {
-        // Calculate time taken
-        const endTime = Date.now();
-        const timeSeconds = Math.round((endTime - this.gameStartTime) / 1000);
-        const moves = this.getMoveCount();
-        
-        // Send game won notification with time and moves
-        this.peerService.sendGameWon(moves, timeSeconds);
-        
-        // Show success message with time
-        this.showSuccessMessage(moves, timeSeconds);
-      }
+      console.warn(expected === undefined ?
+        `Action ${sequence} is too old to compare; sending a snapshot` :
+        `Boards differ after action ${sequence}; sending a snapshot`);
+    }
+    
+    this.sendSnapshot(model);
+    this.multiplayerView.showTemporaryMessage("Resynced your partner's board");
+  }
+
+  /**
+   * Check whether the guest has stayed behind at the same action for a
+   * whole hash check, as happens when an action never reaches it and the
+   * ones after it are held back
+   * @param sequence Number of the last action the guest had applied
+   */
+  private isGuestStuck(sequence: number): boolean {
+    if (sequence >= this.sequencer.getSequence()) {
+      this.guestLag = null;
+      return false;
+    }
+    
+    if (this.guestLag?.sequence !== sequence) {
+      this.guestLag = { sequence, since: Date.now() };
+      return false;
     }
+    
+    return Date.now() - this.guestLag.since >= HASH_CHECK_SECONDS * 1000;
   }
 
   /**
-   * Handle a move received from peer
+   * Send the host's game in progress to the guest, to replace its board
    */
-  private handleReceivedMove(row: number, col: number): void {
-    if (!this.isMultiplayerActive || !this.getModel()) return;
+  private sendSnapshot(model: GamePuzzle): void {
+    this.resyncSequence = this.sequencer.getSequence();
+    this.guestLag = null;
+    this.peerService.sendSnapshot(
+      model.getSnapshot(),
+      this.resyncSequence,
+      Math.round((Date.now() - this.gameStartTime) / 1000)
+    );
+  }
+
+  /**
+   * Replace the guest's board with the host's game in progress
+   * @param sequence Number of the last action the host applied
+   * @param elapsedSeconds Time since the host started the game
+   */
+  private handleReceivedSnapshot(snapshot: GameSnapshot, sequence: number, elapsedSeconds: number): void {
+    const model = this.getModel();
+    if (!this.isSharedBoard() || this.isHost || !model) return;
     
-    // Set flag to prevent sending the move back
-    this.receivedMove = true;
+    try {
+      if (!restoreGameSnapshot(model, snapshot)) {
+        console.error("Rejected snapshot from host: it is for another puzzle family");
+        return;
+      }
+    } catch (error) {
+      if (error instanceof InvalidBoardError) {
+        console.error("Rejected snapshot from host:", error.reason, error.message);
+        return;
+      }
+      throw error;
+    }
     
-    // Call the parent method to handle the move
-    this.handleTileClick(row, col);
+    // Actions that came after the snapshot still apply on top of it
+    this.sequencer.skipTo(sequence).forEach(next => this.applySharedAction(next));
+    this.gameStartTime = Date.now() - elapsedSeconds * 1000;
+    this.updateBoard();
+    this.multiplayerView.showTemporaryMessage('Board resynced with the host');
+  }
+
+  /**
+   * Handle the host turning down an action that crossed with another one
+   */
+  private handleActionRejected(): void {
+    if (!this.isSharedBoard() || this.isHost) return;
+    
+    this.multiplayerView.showStatusMessage('Your partner moved first, so your last move was not made');
   }
 
   /**
    * Override to handle multiplayer logic for reset
    */
-  protected override resetGame(): void {
-    super.resetGame();
+  protected override resetGame(seed?: number): void {
+    // A daily puzzle always restarts from the day's scramble, and once its
+    // board has been seen, another go at it is only practice
+    const model = this.getModel();
+    if (this.dailyDay && model) {
+      seed = getDailySeed(this.dailyDay, model.getSize());
+      this.dailyRetry = !this.dailyResults.recordAttempt(this.dailyDay, model.getSize());
+    }
+    
+    // Only the host deals a shared board; the guest asks it for a new one
+    if (this.isSharedBoard() && !this.isHost) {
+      this.peerService.sendResetGame();
+      return;
+    }
+    
+    super.resetGame(seed);
+    
+    // Only the host deals races; the guest starts over on the same board
+    // and the race clock keeps running
+    if (this.isRace() && !this.isHost) return;
     
     // Reset game start time
     this.gameStartTime = Date.now();
     
+    // Every new blindfold scramble gets its own inspection
+    if (this.blindfoldPhase) {
+      this.beginInspection();
+    }
+    
     // If in multiplayer mode and we're the host, send the reset to the peer
     if (this.isMultiplayerActive && this.isHost) {
       this.peerService.sendResetGame();
       this.peerService.startGame(
-        this.getModel()!.getDimension(),
-        this.getModel()!.getBoard()
+        this.getModel()!.getSize(),
+        this.getModel()!.getBoard(),
+        this.getSettings(),
+        this.getModel()!.getSeed(),
+        this.getModel()!.getGoal()
       );
+      this.sequencer.reset(this.getModel()!.getHash());
+      this.resyncSequence = 0;
+      this.guestLag = null;
+      this.beginRace(this.getModel()!.getBoard());
     }
     
     // Reset the opponent solved flag
@@ -461,9 +1118,87 @@ export class MultiplayerGameController extends GameController {
   }
 
   /**
-   * Handle reset received from host
+   * Override to show the hide and peek buttons in blindfold mode
+   */
+  protected override getBlindfoldHandlers(): BlindfoldHandlers | undefined {
+    if (!this.blindfoldPhase) return undefined;
+    
+    return {
+      start: () => this.startBlindfoldSolve(),
+      peek: () => this.peekBlindfold()
+    };
+  }
+
+  /**
+   * Override so the tutor cannot give away a blindfold board
+   */
+  protected override canTutor(model: GamePuzzle): boolean {
+    return this.blindfoldPhase === null && super.canTutor(model);
+  }
+
+  /**
+   * Override so hints cannot give away a blindfold board
+   */
+  protected override async showHint(): Promise<void> {
+    if (this.blindfoldPhase === 'inspecting' || this.blindfoldPhase === 'solving') {
+      this.multiplayerView.showStatusMessage('Hints are off during a blindfold solve');
+      return;
+    }
+    
+    await super.showHint();
+  }
+
+  /**
+   * Override to deal a drill board while practising a drill
+   */
+  protected override shuffleModel(model: GamePuzzle, seed?: number): void {
+    if (this.isRace() && !this.isHost && this.raceStartBoard) {
+      model.loadBoard(this.raceStartBoard, model.getSeed());
+      return;
+    }
+    
+    if (!this.drill || !(model instanceof PuzzleModel)) {
+      super.shuffleModel(model, seed);
+      return;
+    }
+    
+    model.loadBoard(createDrillBoard(model.getSize(), this.drill, Math.random));
+    this.drillStats.recordAttempt(this.drill, model.getSize());
+    this.drillSolved = false;
+  }
+
+  /**
+   * Override to show the chosen picture on the peer's board too
+   */
+  protected override async applyPicture(): Promise<PuzzleImage | null> {
+    const image = await super.applyPicture();
+    
+    if (this.isMultiplayerActive) {
+      this.peerService.sendPuzzleImage(image);
+    }
+    
+    return image;
+  }
+
+  /**
+   * Handle a picture chosen by the peer
+   */
+  private handleReceivedPuzzleImage(image: PuzzleImage | null): void {
+    if (!this.isMultiplayerActive) return;
+    
+    this.multiplayerView.setTileImage(image);
+  }
+
+  /**
+   * Handle reset received from host, or on a shared board the guest asking
+   * the host for a new one
    */
   private handleReceivedReset(): void {
+    if (this.isSharedBoard() && this.isHost) {
+      this.resetGame();
+      return;
+    }
+    
     // Host will send a new game start message with the board
     this.opponentSolved = false;
     this.multiplayerView.clearOpponentWon();
@@ -473,23 +1208,153 @@ export class MultiplayerGameController extends GameController {
    * Override to handle multiplayer cleanup when returning to welcome screen
    */
   protected override backToWelcome(): void {
-    // Close the multiplayer connection
+    this.stopHashChecks();
+    
+    // Close the multiplayer connection; marked inactive first so the
+    // disconnect it reports does not lead back here
     if (this.isMultiplayerActive) {
-      this.peerService.close();
       this.isMultiplayerActive = false;
+      this.peerService.close();
     }
     
     super.backToWelcome();
   }
 
   /**
-   * Handle the opponent winning
+   * Handle the opponent winning; in a race this is only a claim for the
+   * host to check
    */
-  private handleOpponentWon(playerName: string, moves: number, timeSeconds: number): void {
+  private handleOpponentWon(playerName: string, moves: number, timeSeconds: number, solution: SolutionStep[], counters: MoveCounters): void {
+    if (this.isRace()) {
+      if (this.isHost) {
+        this.judgeRaceClaim(playerName, solution, counters);
+      }
+      return;
+    }
+    
     this.opponentSolved = true;
     this.multiplayerView.showOpponentWon(playerName, moves, timeSeconds);
   }
 
+  /**
+   * Check whether both players are racing on their own copy of the board
+   */
+  private isRace(): boolean {
+    return this.isMultiplayerActive && this.getSettings().matchMode === 'race';
+  }
+
+  /**
+   * Check whether both players are moving tiles on the same board
+   */
+  private isSharedBoard(): boolean {
+    return this.isMultiplayerActive && this.getSettings().matchMode === 'shared';
+  }
+
+  /**
+   * Remember the starting board of a new race, which solve claims are
+   * checked against
+   */
+  private beginRace(board: number[][]): void {
+    this.raceStartBoard = board.map(row => [...row]);
+    this.raceResult = null;
+    this.raceClaim = null;
+    
+    if (this.isRace()) {
+      this.multiplayerView.showStatusMessage('Race: you both have the same scramble on your own board. First verified solve wins!');
+    }
+  }
+
+  /**
+   * Handle our own solve in a race. The host's solve is decided on the
+   * spot; the guest sends its moves to the host to be checked.
+   */
+  private finishRace(moves: number, timeSeconds: number): void {
+    if (this.raceResult !== null) {
+      this.showSuccessMessage(moves, timeSeconds);
+      return;
+    }
+    
+    if (this.isHost) {
+      this.raceResult = { winner: 'host', playerName: this.peerService.getPlayerName(), moves, timeSeconds };
+      this.sendRaceResult(this.raceResult);
+      this.multiplayerView.showRaceWon(moves, timeSeconds);
+      return;
+    }
+    
+    // Kept to send again if the claim is lost while reconnecting
+    const model = this.getModel()!;
+    this.raceClaim = { moves, timeSeconds, solution: getSolution(model), counters: model.getCounters() };
+    this.peerService.sendGameWon(moves, timeSeconds, this.raceClaim.solution, this.raceClaim.counters);
+    this.multiplayerView.showStatusMessage(`Solved in ${timeSeconds} seconds! Waiting for the host to check your moves...`);
+  }
+
+  /**
+   * Check the guest's solve claim by replaying its moves from the race's
+   * starting board, and award the race if it holds and came first
+   */
+  private judgeRaceClaim(playerName: string, solution: SolutionStep[], counters: MoveCounters): void {
+    const model = this.getModel();
+    if (!model || !this.raceStartBoard || this.raceResult !== null) return;
+    
+    const goal = model.getGoal();
+    const referee = createPuzzle(model.variant, model.getSize(), goal, getLockedTiles(goal, this.getSettings().obstacles));
+    referee.loadBoard(this.raceStartBoard);
+    
+    if (!verifySolution(referee, solution)) {
+      console.warn("Rejected race solve from peer: its moves do not solve the starting board");
+      this.multiplayerView.showStatusMessage(`${playerName}'s solve did not check out. The race goes on!`);
+      return;
+    }
+    
+    if (!isTallyOfSolution(counters, referee.getCounters())) {
+      console.warn("Rejected race solve from peer: its move counts do not match its moves");
+      this.multiplayerView.showStatusMessage(`${playerName}'s solve did not check out. The race goes on!`);
+      return;
+    }
+    
+    // The solution leaves out anything undone, so the moves are counted from
+    // the guest's counters once they match it, and the time from the host's clock
+    const { undoRule, metric } = this.getSettings();
+    const moves = countMoves(counters, undoRule, metric);
+    const timeSeconds = Math.round((Date.now() - this.gameStartTime) / 1000);
+    
+    this.raceResult = { winner: 'guest', playerName, moves, timeSeconds };
+    this.opponentSolved = true;
+    this.sendRaceResult(this.raceResult);
+    this.multiplayerView.showOpponentWon(playerName, moves, timeSeconds);
+  }
+
+  /**
+   * Handle the host's decision on who won the race
+   */
+  private handleRaceResult(winner: RaceWinner, playerName: string, moves: number, timeSeconds: number): void {
+    if (!this.isRace() || this.isHost) return;
+    
+    this.raceResult = { winner, playerName, moves, timeSeconds };
+    if (winner === 'guest') {
+      this.multiplayerView.showRaceWon(moves, timeSeconds);
+    } else {
+      this.opponentSolved = true;
+      this.multiplayerView.showOpponentWon(playerName, moves, timeSeconds);
+    }
+  }
+
+  /**
+   * Send the host's decision on the race to the guest
+   */
+  private sendRaceResult(result: RaceResult): void {
+    this.peerService.sendRaceResult(result.winner, result.playerName, result.moves, result.timeSeconds);
+  }
+
+  /**
+   * Handle the opponent's progress towards solving
+   */
+  private handleOpponentProgress(playerName: string, progress: ProgressMetrics): void {
+    if (!this.isMultiplayerActive || this.opponentSolved) return;
+    
+    this.multiplayerView.showOpponentProgress(playerName, progress);
+  }
+
   /**
    * Handle connection status changes
    */
@@ -510,20 +1375,137 @@ export class MultiplayerGameController extends GameController {
         this.startGame();
       }
     } else {
+      const wasPlaying = this.isMultiplayerActive && this.isGameStarted();
       this.isMultiplayerActive = false;
       this.multiplayerView.showConnectionStatus(false);
       
       // Return to welcome screen if disconnected during game
-      if (this.isGameStarted()) {
+      if (wasPlaying) {
         this.backToWelcome();
       }
     }
   }
 
+  /**
+   * Handle the connection to the other player dropping mid-match. The board
+   * stays as it is while we wait for them to come back, and the match ends
+   * if they do not return in time.
+   */
+  private handleConnectionLost(): void {
+    if (!this.isMultiplayerActive || !this.isGameStarted()) {
+      // Nothing to resume before the first board arrives
+      this.peerService.close();
+      return;
+    }
+    
+    let secondsLeft = RECONNECT_GRACE_SECONDS;
+    const endHandler = () => this.endMatch('You ended the match.');
+    
+    this.clearReconnectTimer();
+    this.multiplayerView.showReconnecting(secondsLeft, endHandler);
+    this.reconnectTimer = window.setInterval(() => {
+      secondsLeft--;
+      if (secondsLeft > 0) {
+        this.multiplayerView.showReconnecting(secondsLeft, endHandler);
+      } else {
+        this.endMatch('The other player did not come back in time.');
+      }
+    }, 1000);
+  }
+
+  /**
+   * Pick a dropped match up again, sending anything the other player may
+   * have missed while we were apart
+   */
+  private handleConnectionResumed(): void {
+    this.clearReconnectTimer();
+    this.multiplayerView.hideReconnecting();
+    
+    const model = this.getModel();
+    if (!this.isMultiplayerActive || !model) return;
+    
+    this.multiplayerView.showTemporaryMessage('Reconnected');
+    
+    // The host's board and clock are the shared game; the guest catches up to them
+    if (this.isSharedBoard()) {
+      if (this.isHost) {
+        this.sendSnapshot(model);
+      }
+      return;
+    }
+    
+    // In a race each side sends its progress, and the host's decision or the
+    // guest's solve claim if it may have been lost
+    this.peerService.sendProgress(model.getProgress());
+    if (this.isHost && this.raceResult) {
+      this.sendRaceResult(this.raceResult);
+    } else if (!this.isHost && this.raceClaim && !this.raceResult) {
+      this.peerService.sendGameWon(this.raceClaim.moves, this.raceClaim.timeSeconds, this.raceClaim.solution, this.raceClaim.counters);
+    }
+  }
+
+  /**
+   * Handle the other player leaving the match on purpose
+   */
+  private handlePeerLeft(): void {
+    this.clearReconnectTimer();
+    
+    if (this.isMultiplayerActive && this.isGameStarted()) {
+      this.endMatch('The other player left the match.');
+    } else {
+      this.peerService.close();
+    }
+  }
+
+  /**
+   * End the match for good and show how it went
+   * @param reason Why the match ended
+   */
+  private endMatch(reason: string): void {
+    this.clearReconnectTimer();
+    
+    const result = this.getMatchResult();
+    this.backToWelcome();
+    this.multiplayerView.showMatchEnded(reason, result);
+  }
+
+  /**
+   * Describe the outcome of the match so far
+   */
+  private getMatchResult(): string {
+    if (this.isSharedBoard()) {
+      return this.getModel()?.isSolved() ? 'You solved the puzzle together.' : 'The puzzle was not solved.';
+    }
+    
+    if (!this.raceResult) {
+      return 'Nobody finished the race, so there is no winner.';
+    }
+    
+    const { winner, playerName, timeSeconds } = this.raceResult;
+    return (winner === 'host') === this.isHost ?
+      `You won the race in ${timeSeconds} seconds.` :
+      `${playerName} won the race in ${timeSeconds} seconds.`;
+  }
+
+  /**
+   * Stop counting down the wait for the other player
+   */
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      clearInterval(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   /**
    * Update game state and UI to prepare for game start
    */
   private prepareGameUI(): void {
+    // A game with a peer replaces any daily puzzle, drill or blindfold solve
+    this.dailyDay = null;
+    this.drill = null;
+    this.stopBlindfold();
+    
     // Ensure all UI overlays are cleared
     this.multiplayerView.closeModal();
     this.multiplayerView.hideLoadingMessage();
@@ -533,24 +1515,6 @@ export class MultiplayerGameController extends GameController {
     tempMessages.forEach(msg => msg.remove());
   }
 
-  /**
-   * Get the current move count - access the protected moveCount in the parent class
-   * by using other available methods
-   */
-  private getMoveCount(): number {
-    // We can try to read the moves counter from the view
-    const movesElement = this.multiplayerView.container.querySelector('#moves-counter');
-    if (movesElement) {
-      const text = movesElement.textContent || '';
-      const match = text.match(/Moves: (\d+)/);
-      if (match && match[1]) {
-        return parseInt(match[1]);
-      }
-    }
-    // Default fallback
-    return 0;
-  }
-
   /**
    * Show the success message with custom time info
    */
@@ -0,0 +1,78 @@
+import { BoardSize } from './PuzzleModel'
+import { MoveMetric, isMoveMetric, isPuzzleVariant } from './GameSettings'
+import { PuzzleVariant } from './Puzzle'
+import { isCount, isRecord } from '../utils/helpers'
+
+/**
+ * Stages of a blindfold solve
+ * - inspecting: the scrambled board is shown so it can be memorised
+ * - solving: tile labels are hidden and the clock runs
+ * - done: the puzzle was solved and the labels are back
+ */
+export type BlindfoldPhase = 'inspecting' | 'solving' | 'done'
+
+/**
+ * Time allowed to memorise the board before the labels are hidden
+ */
+export const INSPECTION_SECONDS = 15
+
+/**
+ * How long a peek shows the labels again
+ */
+export const PEEK_SECONDS = 2
+
+/**
+ * Time added to the result for every peek
+ */
+export const PEEK_PENALTY_SECONDS = 5
+
+/**
+ * A solved blindfold puzzle
+ */
+export interface BlindfoldResult {
+  /** When the puzzle was solved, in milliseconds since the epoch */
+  solvedAt: number
+  variant: PuzzleVariant
+  rows: number
+  cols: number
+  moves: number
+  /** How the moves were counted */
+  metric: MoveMetric
+  /** Time from hiding the labels to the solve, without penalties */
+  timeSeconds: number
+  /** Number of peeks taken */
+  peeks: number
+}
+
+/**
+ * Get the time a blindfold result counts for: the solve time plus the
+ * penalty for each peek
+ */
+export const getPenalizedTime = (result: Pick<BlindfoldResult, 'timeSeconds' | 'peeks'>): number => {
+  return result.timeSeconds + result.peeks * PEEK_PENALTY_SECONDS
+}
+
+/**
+ * Find the fastest result for a puzzle family and board size, counting penalties
+ * @returns The best result, or null if there is none yet
+ */
+export const findBestResult = (
+  results: BlindfoldResult[],
+  variant: PuzzleVariant,
+  size: BoardSize
+): BlindfoldResult | null => {
+  return results
+    .filter(result => result.variant === variant && result.rows === size.rows && result.cols === size.cols)
+    .reduce<BlindfoldResult | null>((best, result) =>
+      best === null || getPenalizedTime(result) < getPenalizedTime(best) ? result : best, null)
+}
+
+/**
+ * Check that a stored value is a blindfold result
+ */
+export const isBlindfoldResult = (value: unknown): value is BlindfoldResult => {
+  return isRecord(value) &&
+    [value.solvedAt, value.rows, value.cols, value.moves, value.timeSeconds, value.peeks].every(isCount) &&
+    isPuzzleVariant(value.variant) &&
+    isMoveMetric(value.metric)
+}
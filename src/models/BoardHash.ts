@@ -0,0 +1,90 @@
+import { OBSTACLE } from './PuzzleSolver'
+import { createSeededRandom } from '../utils/random'
+
+// Hashes are 52 bits, kept as a 20-bit high half and a 32-bit low half so
+// both halves can be XORed as plain integers and the whole fits in a number
+const HIGH_BITS = 0x100000
+const LOW_BITS = 0x100000000
+
+// Fixed seed for the keys, so every player computes the same hash for a board
+const KEY_SEED = 0x5EED5A11
+
+/**
+ * Random keys for Zobrist hashing boards of one size. A board's hash is the
+ * XOR of the keys of the value in each cell, so changing one cell only
+ * needs that cell's old and new keys.
+ */
+export class ZobristTable {
+  private readonly highKeys: number[]
+  private readonly lowKeys: number[]
+  private readonly valueCount: number
+  readonly rows: number
+  readonly cols: number
+
+  /**
+   * Create the keys for a board size. Cells may hold OBSTACLE, 0 for the
+   * empty space or a tile from 1 up to the number of cells.
+   */
+  constructor(rows: number, cols: number) {
+    const random = createSeededRandom(KEY_SEED ^ (rows << 8) ^ cols)
+    const keyCount = rows * cols * (rows * cols + 2)
+
+    this.rows = rows
+    this.cols = cols
+    this.valueCount = rows * cols + 2
+    this.highKeys = Array.from({ length: keyCount }, () => Math.floor(random() * HIGH_BITS))
+    this.lowKeys = Array.from({ length: keyCount }, () => Math.floor(random() * LOW_BITS))
+  }
+
+  /**
+   * Hash a whole board
+   */
+  hashBoard(board: number[][]): number {
+    let hash = 0
+    board.forEach((rowValues, row) => {
+      rowValues.forEach((value, col) => {
+        hash = this.toggle(hash, row, col, value)
+      })
+    })
+
+    return hash
+  }
+
+  /**
+   * Add a value at a cell to a hash, or take it out again; XOR undoes itself
+   */
+  toggle(hash: number, row: number, col: number, value: number): number {
+    const key = (row * this.cols + col) * this.valueCount + (value - OBSTACLE)
+    const low = hash % LOW_BITS
+    const high = (hash - low) / LOW_BITS
+
+    return ((high ^ this.highKeys[key]) >>> 0) * LOW_BITS + ((low ^ this.lowKeys[key]) >>> 0)
+  }
+}
+
+// Tables are shared by every board of the same size
+const tables = new Map<string, ZobristTable>()
+
+/**
+ * Get the Zobrist keys for a board size
+ */
+export const getZobristTable = (rows: number, cols: number): ZobristTable => {
+  const sizeKey = `${rows}x${cols}`
+  let table = tables.get(sizeKey)
+  if (!table) {
+    table = new ZobristTable(rows, cols)
+    tables.set(sizeKey, table)
+  }
+
+  return table
+}
+
+/**
+ * Write a board as a canonical string, e.g. "3x3:1,2,3,4,5,6,7,8,0" with #
+ * for blocked cells. Equal boards always give the same key, unlike hashes
+ * which can rarely collide.
+ */
+export const createStateKey = (board: number[][]): string => {
+  const cells = board.flat().map(value => value === OBSTACLE ? '#' : String(value))
+  return `${board.length}x${board[0]?.length ?? 0}:${cells.join(',')}`
+}
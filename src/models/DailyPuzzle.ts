@@ -0,0 +1,78 @@
+import { BoardSize } from './PuzzleModel'
+import { DEFAULT_GAME_SETTINGS, GameSettings, MoveMetric, isMoveMetric } from './GameSettings'
+import { seedFromText } from '../utils/random'
+import { isCount, isRecord } from '../utils/helpers'
+
+/**
+ * Rules of the daily puzzle. They are fixed, so every result for a day and
+ * board size was played on the same board and counted the same way.
+ */
+export const DAILY_GAME_SETTINGS: GameSettings = { ...DEFAULT_GAME_SETTINGS }
+
+/**
+ * A solved daily puzzle
+ */
+export interface DailyResult {
+  /** Day the puzzle was for, as YYYY-MM-DD */
+  day: string
+  rows: number
+  cols: number
+  moves: number
+  /** How the moves were counted */
+  metric: MoveMetric
+  timeSeconds: number
+}
+
+// A calendar day written as YYYY-MM-DD
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/**
+ * Get the calendar day of a date in local time, as YYYY-MM-DD
+ */
+export const getDayKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Get the day before a YYYY-MM-DD day
+ */
+export const getPreviousDay = (day: string): string => {
+  const [, year, month, date] = DAY_PATTERN.exec(day) ?? []
+  return getDayKey(new Date(Number(year), Number(month) - 1, Number(date) - 1))
+}
+
+/**
+ * Seed of the daily scramble. Every player gets the same seed for a day and
+ * board size, so no server is needed to share the puzzle.
+ */
+export const getDailySeed = (day: string, size: BoardSize): number => {
+  return seedFromText(`daily:${day}:${size.rows}x${size.cols}`)
+}
+
+/**
+ * Count the days in a row, up to today, on which a daily puzzle was solved.
+ * A streak that ran until yesterday still counts while today is unsolved.
+ * @param solvedDays Days with at least one solved daily puzzle
+ */
+export const countStreak = (solvedDays: Set<string>, today: string = getDayKey()): number => {
+  let day = solvedDays.has(today) ? today : getPreviousDay(today)
+  let streak = 0
+
+  while (solvedDays.has(day)) {
+    streak++
+    day = getPreviousDay(day)
+  }
+
+  return streak
+}
+
+/**
+ * Check that a stored value is a daily result
+ */
+export const isDailyResult = (value: unknown): value is DailyResult => {
+  return isRecord(value) && typeof value.day === 'string' && DAY_PATTERN.test(value.day) &&
+    [value.rows, value.cols, value.moves, value.timeSeconds].every(isCount) &&
+    isMoveMetric(value.metric)
+}
@@ -0,0 +1,214 @@
+import { BoardSize, Position } from './PuzzleModel'
+import { DEFAULT_GAME_SETTINGS, GameSettings } from './GameSettings'
+import { OBSTACLE, createSolvedBoard } from './PuzzleSolver'
+import { ScrambleGenerator } from './ScrambleGenerator'
+import { findTileMoves } from './Tutor'
+import { RandomSource } from '../utils/random'
+import { isCount, isOwnKey, isRecord } from '../utils/helpers'
+
+/**
+ * Phases of a solve that can be practised on their own
+ * - last-two-rows: only the bottom two rows are scrambled
+ * - final-3x2: only the last three columns of the bottom two rows
+ * - last-2x2: only the bottom-right 2×2 block
+ * - corner-case: the top row is done except its last two tiles, which sit
+ *   in the awkward spot where the last tile is right below its place
+ */
+export type DrillType = 'last-two-rows' | 'final-3x2' | 'last-2x2' | 'corner-case'
+
+/**
+ * A player's record for one drill on one board size
+ */
+export interface DrillStats {
+  /** Drill boards dealt */
+  attempts: number
+  /** Drill boards solved */
+  solves: number
+  /** Fastest solve, or null before the first one */
+  bestTimeSeconds: number | null
+  /** Sum of all solve times, for the average */
+  totalTimeSeconds: number
+}
+
+/**
+ * Rules drills are played by, fixed so times stay comparable
+ */
+export const DRILL_GAME_SETTINGS: GameSettings = { ...DEFAULT_GAME_SETTINGS }
+
+/**
+ * Display labels for the drills
+ */
+export const DRILL_LABELS: Record<DrillType, string> = {
+  'last-two-rows': 'Last two rows',
+  'final-3x2': 'Final 3×2',
+  'last-2x2': 'Last 2×2',
+  'corner-case': 'Row corner case'
+}
+
+/**
+ * What each drill practises, shown on the drill selection screen
+ */
+export const DRILL_DESCRIPTIONS: Record<DrillType, string> = {
+  'last-two-rows': 'Everything above the bottom two rows is solved.',
+  'final-3x2': 'Only the last three tiles of the bottom two rows are mixed up.',
+  'last-2x2': 'Cycle the final three tiles home.',
+  'corner-case': 'Finish the top row when its last tile is stuck right below its place.'
+}
+
+/**
+ * Check whether a value is a known drill
+ */
+export const isDrillType = (value: unknown): value is DrillType => {
+  return isOwnKey(DRILL_LABELS, value)
+}
+
+/**
+ * Check whether drills can be played on a board size. On boards with fewer
+ * than three rows or columns a drill would cover the whole puzzle.
+ */
+export const isDrillAvailable = (size: BoardSize): boolean => {
+  return size.rows >= 3 && size.cols >= 3
+}
+
+/**
+ * Create statistics for a drill that has not been tried yet
+ */
+export const createDrillStats = (): DrillStats => {
+  return { attempts: 0, solves: 0, bestTimeSeconds: null, totalTimeSeconds: 0 }
+}
+
+/**
+ * Check that a stored value is a drill record
+ */
+export const isDrillStats = (value: unknown): value is DrillStats => {
+  if (!isRecord(value)) return false
+
+  const { attempts, solves, bestTimeSeconds, totalTimeSeconds } = value
+  return isCount(attempts) && isCount(solves) && solves <= attempts &&
+    (bestTimeSeconds === null || (typeof bestTimeSeconds === 'number' && bestTimeSeconds >= 0)) &&
+    typeof totalTimeSeconds === 'number' && totalTimeSeconds >= 0
+}
+
+/**
+ * Get the cells a drill mixes up; every other cell stays solved
+ */
+export const getDrillRegion = (size: BoardSize, drill: DrillType): Position[] => {
+  const { rows, cols } = size
+  const cells: Position[] = []
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const inRegion = {
+        'last-two-rows': row >= rows - 2,
+        'final-3x2': row >= rows - 2 && col >= cols - 3,
+        'last-2x2': row >= rows - 2 && col >= cols - 2,
+        'corner-case': row > 0 || col >= cols - 2
+      }[drill]
+
+      if (inRegion) cells.push({ row, col })
+    }
+  }
+
+  return cells
+}
+
+/**
+ * Generate a drill board: solved outside the drill's region and scrambled,
+ * but never solved, inside it
+ * @throws Error if drills are not available for the size
+ */
+export const createDrillBoard = (size: BoardSize, drill: DrillType, random: RandomSource): number[][] => {
+  if (!isDrillAvailable(size)) {
+    throw new Error(`Drills need at least 3 rows and 3 columns`)
+  }
+
+  const goal = createSolvedBoard(size.rows, size.cols)
+  const fixed = goal.map(rowValues => rowValues.map(() => true))
+  getDrillRegion(size, drill).forEach(({ row, col }) => { fixed[row][col] = false })
+
+  // The generator treats the solved part as blocked cells and leaves it alone
+  const walledGoal = goal.map((rowValues, row) =>
+    rowValues.map((value, col) => fixed[row][col] ? OBSTACLE : value))
+  const generator = new ScrambleGenerator(random)
+
+  let board: number[][]
+  do {
+    board = drill === 'last-2x2' ?
+      cycleLastBlock(goal, random) :
+      generator.generate(size, 'random', walledGoal).map((rowValues, row) =>
+        rowValues.map((value, col) => value === OBSTACLE ? goal[row][col] : value))
+
+    if (drill === 'corner-case') {
+      board = setUpCornerCase(board, goal, fixed)
+    }
+  } while (!isDrillReady(board, goal, drill))
+
+  return board
+}
+
+/**
+ * Check that a generated board still has something to practise: it is not
+ * solved, and in the corner case the last tile cannot simply slide up
+ */
+const isDrillReady = (board: number[][], goal: number[][], drill: DrillType): boolean => {
+  if (drill === 'corner-case' && board[0][goal[0].length - 1] === 0) return false
+
+  return board.some((rowValues, row) => rowValues.some((value, col) => value !== goal[row][col]))
+}
+
+/**
+ * Move the empty space round the bottom-right 2×2 block a random number of
+ * times. The block only has 12 positions, all on this one cycle, and a
+ * random walk of a fixed length can keep landing back on the goal.
+ */
+const cycleLastBlock = (goal: number[][], random: RandomSource): number[][] => {
+  const rows = goal.length
+  const cols = goal[0].length
+  const cycle: Position[] = [
+    { row: rows - 2, col: cols - 1 },
+    { row: rows - 2, col: cols - 2 },
+    { row: rows - 1, col: cols - 2 },
+    { row: rows - 1, col: cols - 1 }
+  ]
+  const board = goal.map(rowValues => [...rowValues])
+  const steps = 1 + Math.floor(random() * 11)
+
+  for (let step = 0; step < steps; step++) {
+    const empty = cycle[(step + 3) % 4]
+    const next = cycle[step % 4]
+    board[empty.row][empty.col] = board[next.row][next.col]
+    board[next.row][next.col] = 0
+  }
+
+  return board
+}
+
+/**
+ * Put the top row's second-to-last tile in place and its last tile right
+ * below its own place, moving only tiles inside the drill region
+ */
+const setUpCornerCase = (board: number[][], goal: number[][], fixed: boolean[][]): number[][] => {
+  const last = goal[0].length - 1
+  const moves = findTileMoves(board, fixed, [goal[0][last - 1], goal[0][last]], [
+    { row: 0, col: last - 1 },
+    { row: 1, col: last }
+  ])
+
+  const result = board.map(rowValues => [...rowValues])
+  let empty = findEmpty(result)
+  moves.forEach(({ row, col }) => {
+    result[empty.row][empty.col] = result[row][col]
+    result[row][col] = 0
+    empty = { row, col }
+  })
+
+  return result
+}
+
+/**
+ * Find the empty space on a board
+ */
+const findEmpty = (board: number[][]): Position => {
+  const row = board.findIndex(rowValues => rowValues.includes(0))
+  return { row, col: board[row].indexOf(0) }
+}
@@ -0,0 +1,215 @@
+import { Difficulty } from './ScrambleGenerator'
+import { GoalLayout } from './GoalLayout'
+import { ObstacleLayout } from './ObstacleLayout'
+import { MoveCounters, MoveTally, PuzzleVariant } from './Puzzle'
+import { isOwnKey, isRecord } from '../utils/helpers'
+
+/**
+ * What taking back a move costs the player
+ * - free: the move is taken back and no longer counted
+ * - move: the move is taken back but the undo counts as another move
+ * - disabled: moves cannot be taken back
+ */
+export type UndoRule = 'free' | 'move' | 'disabled'
+
+/**
+ * How moves are counted
+ * - multi-tile: sliding a row of tiles at once is one move (MTM)
+ * - single-tile: every tile slid is a move (STM); in loopover every cell a
+ *   line is rotated by
+ */
+export type MoveMetric = 'multi-tile' | 'single-tile'
+
+/**
+ * How two players share a game
+ * - race: both start from the same scramble on their own boards; the first
+ *   verified solve wins
+ * - shared: both players move tiles on one shared board
+ */
+export type MatchMode = 'race' | 'shared'
+
+/**
+ * Rules a game is played under. In multiplayer the host's settings are
+ * sent with the game start so both players play by the same rules.
+ */
+export interface GameSettings {
+  variant: PuzzleVariant
+  undoRule: UndoRule
+  metric: MoveMetric
+  difficulty: Difficulty
+  goalLayout: GoalLayout
+  obstacles: ObstacleLayout
+  /** Only used when playing together */
+  matchMode: MatchMode
+}
+
+/**
+ * Display labels for the puzzle families
+ */
+export const VARIANT_LABELS: Record<PuzzleVariant, string> = {
+  sliding: 'Sliding',
+  loopover: 'Loopover'
+}
+
+/**
+ * Display labels for the undo rules
+ */
+export const UNDO_RULE_LABELS: Record<UndoRule, string> = {
+  free: 'Free',
+  move: 'Costs a move',
+  disabled: 'Off'
+}
+
+/**
+ * Display labels for the move metrics
+ */
+export const MOVE_METRIC_LABELS: Record<MoveMetric, string> = {
+  'multi-tile': 'Multi-tile (MTM)',
+  'single-tile': 'Single tile (STM)'
+}
+
+/**
+ * Short names of the move metrics, shown next to move counts
+ */
+export const MOVE_METRIC_ABBREVIATIONS: Record<MoveMetric, string> = {
+  'multi-tile': 'MTM',
+  'single-tile': 'STM'
+}
+
+/**
+ * Display labels for the match modes
+ */
+export const MATCH_MODE_LABELS: Record<MatchMode, string> = {
+  race: 'Race (own boards)',
+  shared: 'Shared board'
+}
+
+/**
+ * Display labels for the difficulties
+ */
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  random: 'Random'
+}
+
+/**
+ * Display labels for the goal layouts
+ */
+export const GOAL_LAYOUT_LABELS: Record<GoalLayout, string> = {
+  standard: 'Standard',
+  'blank-first': 'Blank first',
+  'column-major': 'Column by column',
+  snake: 'Snake',
+  spiral: 'Spiral',
+  custom: 'Custom'
+}
+
+/**
+ * Display labels for the obstacle layouts
+ */
+export const OBSTACLE_LAYOUT_LABELS: Record<ObstacleLayout, string> = {
+  none: 'None',
+  center: 'Blocked centre',
+  corners: 'Blocked corners',
+  pillars: 'Pillars',
+  locked: 'Locked tiles'
+}
+
+/**
+ * Settings used when nothing else has been chosen
+ */
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  variant: 'sliding',
+  undoRule: 'free',
+  metric: 'multi-tile',
+  difficulty: 'random',
+  goalLayout: 'standard',
+  obstacles: 'none',
+  matchMode: 'race'
+}
+
+/**
+ * Check whether a value is a known puzzle family
+ */
+export const isPuzzleVariant = (value: unknown): value is PuzzleVariant => {
+  return isOwnKey(VARIANT_LABELS, value)
+}
+
+/**
+ * Check whether a value is a known undo rule
+ */
+export const isUndoRule = (value: unknown): value is UndoRule => {
+  return isOwnKey(UNDO_RULE_LABELS, value)
+}
+
+/**
+ * Check whether a value is a known move metric
+ */
+export const isMoveMetric = (value: unknown): value is MoveMetric => {
+  return isOwnKey(MOVE_METRIC_LABELS, value)
+}
+
+/**
+ * Check whether a value is a known match mode
+ */
+export const isMatchMode = (value: unknown): value is MatchMode => {
+  return isOwnKey(MATCH_MODE_LABELS, value)
+}
+
+/**
+ * Check whether a value is a known difficulty
+ */
+export const isDifficulty = (value: unknown): value is Difficulty => {
+  return isOwnKey(DIFFICULTY_LABELS, value)
+}
+
+/**
+ * Check whether a value is a known goal layout
+ */
+export const isGoalLayout = (value: unknown): value is GoalLayout => {
+  return isOwnKey(GOAL_LAYOUT_LABELS, value)
+}
+
+/**
+ * Check whether a value is a known obstacle layout
+ */
+export const isObstacleLayout = (value: unknown): value is ObstacleLayout => {
+  return isOwnKey(OBSTACLE_LAYOUT_LABELS, value)
+}
+
+/**
+ * Number of moves shown to the player under an undo rule and move metric
+ */
+export const countMoves = (counters: MoveCounters, undoRule: UndoRule, metric: MoveMetric): number => {
+  const tally: MoveTally = metric === 'single-tile' ? counters.steps : counters
+  
+  switch (undoRule) {
+    case 'free':
+      return tally.moves - tally.undos + tally.redos
+    case 'move':
+      return tally.moves + tally.undos + tally.redos
+    case 'disabled':
+      return tally.moves
+  }
+}
+
+/**
+ * Read game settings from untrusted input, falling back to defaults for
+ * anything missing or unknown
+ */
+export const parseGameSettings = (value: unknown): GameSettings => {
+  const fields: Record<string, unknown> = isRecord(value) ? value : {}
+  const { variant, undoRule, metric, difficulty, goalLayout, obstacles, matchMode } = fields
+
+  return {
+    variant: isPuzzleVariant(variant) ? variant : DEFAULT_GAME_SETTINGS.variant,
+    undoRule: isUndoRule(undoRule) ? undoRule : DEFAULT_GAME_SETTINGS.undoRule,
+    metric: isMoveMetric(metric) ? metric : DEFAULT_GAME_SETTINGS.metric,
+    difficulty: isDifficulty(difficulty) ? difficulty : DEFAULT_GAME_SETTINGS.difficulty,
+    goalLayout: isGoalLayout(goalLayout) ? goalLayout : DEFAULT_GAME_SETTINGS.goalLayout,
+    obstacles: isObstacleLayout(obstacles) ? obstacles : DEFAULT_GAME_SETTINGS.obstacles,
+    matchMode: isMatchMode(matchMode) ? matchMode : DEFAULT_GAME_SETTINGS.matchMode
+  }
+}
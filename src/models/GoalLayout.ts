@@ -0,0 +1,128 @@
+import { BoardSize, Position } from './PuzzleModel'
+import { OBSTACLE } from './PuzzleSolver'
+
+/**
+ * Arrangement of the tiles that counts as solved
+ * - standard: row by row, empty space bottom-right
+ * - blank-first: row by row, empty space top-left
+ * - column-major: column by column, empty space bottom-right
+ * - snake: rows alternate left-to-right and right-to-left
+ * - spiral: clockwise from the top-left corner inwards, empty space last
+ * - custom: any arrangement entered by the player
+ */
+export type GoalLayout = 'standard' | 'blank-first' | 'column-major' | 'snake' | 'spiral' | 'custom'
+
+// How a blocked cell is written in a custom goal
+const BLOCKED_TOKEN = '#'
+
+/**
+ * Build the goal board for a layout
+ * @param layout Any layout except custom, which has no fixed board
+ * @param blocked Cells to block; the layout numbers the open cells only
+ */
+export const createGoalBoard = (
+  size: BoardSize,
+  layout: Exclude<GoalLayout, 'custom'>,
+  blocked: Position[] = []
+): number[][] => {
+  const { rows, cols } = size
+  const board: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0))
+  blocked.forEach(({ row, col }) => {
+    board[row][col] = OBSTACLE
+  })
+  const cells = getCellOrder(size, layout).filter(({ row, col }) => board[row][col] !== OBSTACLE)
+
+  // Tiles follow the cell order; the empty space takes the first or last cell
+  const tileCells = layout === 'blank-first' ? cells.slice(1) : cells.slice(0, -1)
+  tileCells.forEach(({ row, col }, index) => {
+    board[row][col] = index + 1
+  })
+
+  return board
+}
+
+/**
+ * Parse a custom goal typed as the tile values row by row, e.g. "1 2 3 4 0 5 6 7 8".
+ * Values can be separated by spaces, commas or slashes; 0 is the empty space
+ * and # a blocked cell. The open cells hold the numbers from 0 upwards.
+ * @returns The goal board, or null unless every tile appears exactly once
+ */
+export const parseCustomGoal = (text: string, size: BoardSize): number[][] | null => {
+  const cellCount = size.rows * size.cols
+  const values = text.trim().split(/[\s,/]+/).filter(Boolean)
+    .map(token => token === BLOCKED_TOKEN ? OBSTACLE : Number(token))
+  const tiles = values.filter(value => value !== OBSTACLE)
+
+  if (values.length !== cellCount) return null
+  if (tiles.some(value => !Number.isInteger(value) || value < 0 || value >= tiles.length)) return null
+  if (new Set(tiles).size !== tiles.length) return null
+
+  const board: number[][] = []
+  for (let row = 0; row < size.rows; row++) {
+    board.push(values.slice(row * size.cols, (row + 1) * size.cols))
+  }
+
+  return board
+}
+
+/**
+ * Format a goal board the way parseCustomGoal reads it
+ */
+export const formatGoal = (goal: number[][]): string => {
+  return goal.map(row => row.map(value => value === OBSTACLE ? BLOCKED_TOKEN : value).join(' ')).join(' / ')
+}
+
+/**
+ * Order in which a layout visits the cells of the board
+ */
+const getCellOrder = (size: BoardSize, layout: Exclude<GoalLayout, 'custom'>): Position[] => {
+  const { rows, cols } = size
+  const cells: Position[] = []
+
+  switch (layout) {
+    case 'column-major':
+      for (let col = 0; col < cols; col++) {
+        for (let row = 0; row < rows; row++) cells.push({ row, col })
+      }
+      break
+
+    case 'snake':
+      for (let row = 0; row < rows; row++) {
+        for (let i = 0; i < cols; i++) {
+          cells.push({ row, col: row % 2 === 0 ? i : cols - 1 - i })
+        }
+      }
+      break
+
+    case 'spiral': {
+      let top = 0
+      let bottom = rows - 1
+      let left = 0
+      let right = cols - 1
+
+      // Walk the outer ring clockwise, then shrink the ring
+      while (top <= bottom && left <= right) {
+        for (let col = left; col <= right; col++) cells.push({ row: top, col })
+        for (let row = top + 1; row <= bottom; row++) cells.push({ row, col: right })
+        if (top < bottom) {
+          for (let col = right - 1; col >= left; col--) cells.push({ row: bottom, col })
+        }
+        if (left < right) {
+          for (let row = bottom - 1; row > top; row--) cells.push({ row, col: left })
+        }
+        top++
+        bottom--
+        left++
+        right--
+      }
+      break
+    }
+
+    default:
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) cells.push({ row, col })
+      }
+  }
+
+  return cells
+}
@@ -0,0 +1,583 @@
+import { createSeededRandom, randomSeed } from '../utils/random'
+import { BoardSize, InvalidBoardError } from './PuzzleModel'
+import { MoveCounters, MoveKind, ProgressMetrics, Puzzle, PuzzleEvents, PuzzleSnapshot, copyCounters, createCounters, createProgress, tallyMove } from './Puzzle'
+import { EventEmitter, EventListener } from '../utils/events'
+import { Difficulty } from './ScrambleGenerator'
+import { ZobristTable, createStateKey, getZobristTable } from './BoardHash'
+
+/**
+ * Direction a loopover move rotates in
+ * - row: a row rotates sideways, positive offsets move tiles right
+ * - col: a column rotates vertically, positive offsets move tiles down
+ */
+export type RotationAxis = 'row' | 'col'
+
+/**
+ * A rotation of a whole row or column, as kept in the history
+ */
+export interface RotationMove {
+  axis: RotationAxis
+  /** Row or column that rotated */
+  index: number
+  /** Number of cells the tiles moved, wrapping around the edge */
+  offset: number
+}
+
+/**
+ * Optional settings for a new loopover model
+ */
+export interface LoopoverModelOptions {
+  /** Scramble the board right away using this seed */
+  seed?: number
+  /** Difficulty of the initial scramble, random when omitted */
+  difficulty?: Difficulty
+}
+
+/**
+ * Loopover puzzle: every cell holds a tile and each move rotates an entire
+ * row or column, with the tile pushed off one edge coming back on the other.
+ * Tiles are numbered 1..rows*cols and solved in row-major order.
+ * Listeners added with on() hear about every move, reset and scramble.
+ */
+export class LoopoverModel implements Puzzle<RotationMove> {
+  readonly variant = 'loopover' as const
+  private board: number[][]
+  private hash: number
+  private history: RotationMove[] = []
+  private redoStack: RotationMove[] = []
+  private counters: MoveCounters = createCounters()
+  private startDistance: number = 0
+  private seed: number | null = null
+  private readonly events = new EventEmitter<PuzzleEvents<RotationMove>>()
+  private readonly solution: number[][]
+  private readonly zobrist: ZobristTable
+  private readonly rows: number
+  private readonly cols: number
+
+  /**
+   * Create a new loopover model
+   * @param rows Number of rows, 2-8
+   * @param cols Number of columns, defaults to rows for a square board
+   * @param options Optional settings such as a seed for the initial scramble
+   */
+  constructor(rows: number = 3, cols: number = rows, options: LoopoverModelOptions = {}) {
+    this.rows = Math.max(2, Math.min(8, rows))
+    this.cols = Math.max(2, Math.min(8, cols))
+
+    this.solution = this.createSolvedBoard()
+    this.board = this.copyBoard(this.solution)
+    this.zobrist = getZobristTable(this.rows, this.cols)
+    this.hash = this.zobrist.hashBoard(this.board)
+
+    if (options.seed !== undefined) {
+      this.scramble(options.difficulty, options.seed)
+    }
+  }
+
+  /**
+   * Get the current size of the puzzle
+   */
+  getSize(): BoardSize {
+    return { rows: this.rows, cols: this.cols }
+  }
+
+  /**
+   * Get the number of rows
+   */
+  getRows(): number {
+    return this.rows
+  }
+
+  /**
+   * Get the number of columns
+   */
+  getCols(): number {
+    return this.cols
+  }
+
+  /**
+   * Get the seed of the current scramble
+   * @returns The seed, or null if the board was not produced by scramble
+   */
+  getSeed(): number | null {
+    return this.seed
+  }
+
+  /**
+   * Get the arrangement that counts as solved
+   */
+  getGoal(): number[][] {
+    return this.copyBoard(this.solution)
+  }
+
+  /**
+   * Get the current state of the puzzle board
+   */
+  getBoard(): number[][] {
+    return this.copyBoard(this.board)
+  }
+
+  /**
+   * Check if the puzzle is solved
+   */
+  isSolved(): boolean {
+    return this.board.every((rowValues, row) =>
+      rowValues.every((value, col) => value === this.solution[row][col]))
+  }
+
+  /**
+   * Rotate a row or column and record it in the history
+   * @param axis Whether a row or a column rotates
+   * @param index Row or column to rotate
+   * @param offset Cells to move; wraps around, so any integer is accepted
+   * @returns The rotation made, with the offset reduced to the shortest
+   *   equivalent, or null if the move changes nothing
+   */
+  rotate(axis: RotationAxis, index: number, offset: number): RotationMove | null {
+    const length = axis === 'row' ? this.cols : this.rows
+    const count = axis === 'row' ? this.rows : this.cols
+    if (!Number.isInteger(index) || index < 0 || index >= count || !Number.isInteger(offset)) return null
+
+    // Turning right by length - 1 is the same as turning left by one
+    let shortest = this.wrap(offset, length)
+    if (shortest > length / 2) shortest -= length
+    if (shortest === 0) return null
+
+    const move = { axis, index, offset: shortest }
+    this.applyRotation(move)
+
+    // A new move invalidates anything that could be redone
+    this.history.push(move)
+    this.redoStack = []
+
+    tallyMove(this.counters, 'move', this.countSteps(move))
+    this.emitMove(move, 'move')
+
+    return { ...move }
+  }
+
+  /**
+   * Take back the last rotation
+   * @returns The rotation that was undone, or null if there is nothing to undo
+   */
+  undo(): RotationMove | null {
+    const move = this.history.pop()
+    if (!move) return null
+
+    this.applyRotation({ ...move, offset: -move.offset })
+    this.redoStack.push(move)
+
+    tallyMove(this.counters, 'undo', this.countSteps(move))
+    this.emitMove(move, 'undo')
+
+    return { ...move }
+  }
+
+  /**
+   * Replay the last undone rotation
+   * @returns The rotation that was redone, or null if there is nothing to redo
+   */
+  redo(): RotationMove | null {
+    const move = this.redoStack.pop()
+    if (!move) return null
+
+    this.applyRotation(move)
+    this.history.push(move)
+
+    tallyMove(this.counters, 'redo', this.countSteps(move))
+    this.emitMove(move, 'redo')
+
+    return { ...move }
+  }
+
+  /**
+   * Check if there is a move to undo
+   */
+  canUndo(): boolean {
+    return this.history.length > 0
+  }
+
+  /**
+   * Check if there is a move to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Get the rotations made since the last reset or scramble, oldest first
+   */
+  getHistory(): RotationMove[] {
+    return this.history.map(move => ({ ...move }))
+  }
+
+  /**
+   * Get how many moves, undos and redos were made since the last reset or scramble
+   */
+  getCounters(): MoveCounters {
+    return copyCounters(this.counters)
+  }
+
+  /**
+   * Measure how close the board is to the goal. Distances wrap around the
+   * edges, the way tiles travel on this board.
+   */
+  getProgress(): ProgressMetrics {
+    let tilesInPlace = 0
+    let distance = 0
+
+    this.board.forEach((rowValues, row) => {
+      rowValues.forEach((value, col) => {
+        // Tile t belongs at index t - 1 in row-major order
+        const rowOffset = this.wrap(Math.floor((value - 1) / this.cols) - row, this.rows)
+        const colOffset = this.wrap((value - 1) % this.cols - col, this.cols)
+        const tileDistance =
+          Math.min(rowOffset, this.rows - rowOffset) + Math.min(colOffset, this.cols - colOffset)
+
+        if (tileDistance === 0) tilesInPlace++
+        distance += tileDistance
+      })
+    })
+
+    return createProgress(tilesInPlace, this.rows * this.cols, distance, this.startDistance)
+  }
+
+  /**
+   * Take a copy of the game in progress, to put in place on another model
+   */
+  getSnapshot(): PuzzleSnapshot<RotationMove, 'loopover'> {
+    return {
+      variant: this.variant,
+      board: this.getBoard(),
+      seed: this.seed,
+      history: this.getHistory(),
+      redoStack: this.redoStack.map(move => ({ ...move })),
+      counters: this.getCounters()
+    }
+  }
+
+  /**
+   * Put a game in progress in place, e.g. one received from a peer. The
+   * model is left untouched if the snapshot is rejected.
+   * @throws InvalidBoardError if the board is malformed or cannot be
+   *   solved, or a rotation in the history or redo stack is off the board
+   */
+  restoreSnapshot(snapshot: PuzzleSnapshot<RotationMove>): void {
+    const board = this.copyBoard(this.validateBoard(snapshot.board))
+
+    const onBoard = [...snapshot.history, ...snapshot.redoStack].every(({ axis, index, offset }) =>
+      (axis === 'row' || axis === 'col') && Number.isInteger(index) && index >= 0 &&
+      index < (axis === 'row' ? this.rows : this.cols) && Number.isInteger(offset))
+    if (!onBoard) {
+      throw new InvalidBoardError('history', 'The moves of the snapshot do not fit its board')
+    }
+
+    // Taking back every rotation leads to the starting board, which the
+    // progress estimate is measured from
+    const start = new LoopoverModel(this.rows, this.cols)
+    start.replaceBoard(this.copyBoard(board))
+    for (const move of [...snapshot.history].reverse()) {
+      start.applyRotation({ ...move, offset: -move.offset })
+    }
+
+    const copyMove = ({ axis, index, offset }: RotationMove): RotationMove => ({ axis, index, offset })
+    this.history = snapshot.history.map(copyMove)
+    this.redoStack = snapshot.redoStack.map(copyMove)
+    this.counters = copyCounters(snapshot.counters)
+    this.seed = snapshot.seed
+    this.replaceBoard(board)
+    this.startDistance = start.getProgress().distance
+
+    this.events.emit('shuffled', { seed: this.seed, counters: this.getCounters() })
+  }
+
+  /**
+   * Get the Zobrist hash of the board. Equal boards of the same size always
+   * hash the same, on every device; different boards almost never do.
+   */
+  getHash(): number {
+    return this.hash
+  }
+
+  /**
+   * Get a canonical string for the board, for comparisons that must be exact
+   */
+  getStateKey(): string {
+    return createStateKey(this.board)
+  }
+
+  /**
+   * Listen for moves, solves, resets and scrambles
+   * @returns Function that removes the listener again
+   */
+  on<K extends keyof PuzzleEvents<RotationMove>>(type: K, listener: EventListener<PuzzleEvents<RotationMove>[K]>): () => void {
+    return this.events.on(type, listener)
+  }
+
+  /**
+   * Reset the puzzle to the solved state
+   */
+  reset(): void {
+    this.restart()
+    this.events.emit('reset', { counters: this.getCounters() })
+  }
+
+  /**
+   * Replace the board with a scramble of the given difficulty. Easier
+   * difficulties make fewer random rotations; random picks uniformly among
+   * all reachable boards. The same seed, size and difficulty always produce
+   * the same board.
+   * @param difficulty Target difficulty
+   * @param seed Seed for the scramble; a fresh one is picked when omitted
+   */
+  scramble(difficulty: Difficulty = 'random', seed: number = randomSeed()): void {
+    this.restart()
+    this.seed = seed >>> 0
+
+    const random = createSeededRandom(this.seed)
+
+    do {
+      if (difficulty === 'random') {
+        this.replaceBoard(this.randomReachableBoard(random))
+      } else {
+        this.replaceBoard(this.copyBoard(this.solution))
+        this.randomRotations(this.getRotationCount(difficulty), random)
+      }
+    } while (this.isSolved())
+
+    this.emitShuffled()
+  }
+
+  /**
+   * Replace the board with an arbitrary position, e.g. one received from a peer.
+   * The board is validated first and the model is left untouched if it is rejected.
+   * @param board Board of the model's size holding each tile 1..rows*cols once
+   * @param seed Seed the board was generated from, if known
+   * @throws InvalidBoardError if the board is malformed or cannot be solved
+   */
+  loadBoard(board: unknown, seed: number | null = null): void {
+    const validBoard = this.validateBoard(board)
+
+    this.restart()
+    this.replaceBoard(this.copyBoard(validBoard))
+    this.seed = seed
+
+    this.emitShuffled()
+  }
+
+  /**
+   * Put the goal back on the board and forget the history and counters
+   */
+  private restart(): void {
+    this.history = []
+    this.redoStack = []
+    this.counters = createCounters()
+    this.startDistance = 0
+    this.seed = null
+    this.replaceBoard(this.copyBoard(this.solution))
+  }
+
+  /**
+   * Put a whole new board in place and hash it from scratch
+   */
+  private replaceBoard(board: number[][]): void {
+    this.board = board
+    this.hash = this.zobrist.hashBoard(board)
+  }
+
+  /**
+   * Change one cell, keeping the hash up to date
+   */
+  private setCell(row: number, col: number, value: number): void {
+    this.hash = this.zobrist.toggle(this.hash, row, col, this.board[row][col])
+    this.hash = this.zobrist.toggle(this.hash, row, col, value)
+    this.board[row][col] = value
+  }
+
+  /**
+   * Number of single-cell rotations a move is made of
+   */
+  private countSteps(move: RotationMove): number {
+    return Math.abs(move.offset)
+  }
+
+  /**
+   * Tell listeners about a move, and about the solve if it completed the puzzle
+   */
+  private emitMove(move: RotationMove, kind: MoveKind): void {
+    const counters = this.getCounters()
+    this.events.emit('move', { move: { ...move }, kind, counters })
+
+    if (this.isSolved()) {
+      this.events.emit('solved', { counters })
+    }
+  }
+
+  /**
+   * Remember the new board's distance for the progress estimate and tell
+   * listeners that the board was replaced
+   */
+  private emitShuffled(): void {
+    this.startDistance = this.getProgress().distance
+    this.events.emit('shuffled', { seed: this.seed, counters: this.getCounters() })
+  }
+
+  /**
+   * Rotate a row or column without touching the history
+   */
+  private applyRotation(move: RotationMove): void {
+    const { axis, index, offset } = move
+
+    if (axis === 'row') {
+      const values = [...this.board[index]]
+      values.forEach((_, col) => {
+        this.setCell(index, col, values[this.wrap(col - offset, this.cols)])
+      })
+    } else {
+      const values = this.board.map(rowValues => rowValues[index])
+      values.forEach((_, row) => {
+        this.setCell(row, index, values[this.wrap(row - offset, this.rows)])
+      })
+    }
+  }
+
+  /**
+   * Wrap a row or column number into 0..length-1
+   */
+  private wrap(value: number, length: number): number {
+    return ((value % length) + length) % length
+  }
+
+  /**
+   * Number of random rotations for a difficulty
+   */
+  private getRotationCount(difficulty: Exclude<Difficulty, 'random'>): number {
+    const lines = this.rows + this.cols
+
+    switch (difficulty) {
+      case 'easy':
+        return Math.max(2, Math.ceil(lines / 2))
+      case 'medium':
+        return lines
+      case 'hard':
+        return this.rows * this.cols
+    }
+  }
+
+  /**
+   * Make random rotations, never turning the same line twice in a row
+   */
+  private randomRotations(count: number, random: () => number): void {
+    let previous: RotationMove | null = null
+    let made = 0
+
+    while (made < count) {
+      const axis: RotationAxis = random() < 0.5 ? 'row' : 'col'
+      const lines = axis === 'row' ? this.rows : this.cols
+      const length = axis === 'row' ? this.cols : this.rows
+      const index = Math.floor(random() * lines)
+      if (previous && previous.axis === axis && previous.index === index) continue
+
+      // Any offset except a full turn
+      const offset = 1 + Math.floor(random() * (length - 1))
+      previous = { axis, index, offset }
+      this.applyRotation(previous)
+      made++
+    }
+  }
+
+  /**
+   * Shuffle all tiles uniformly, then swap two tiles if the result cannot be reached
+   */
+  private randomReachableBoard(random: () => number): number[][] {
+    const tiles = this.solution.flat()
+
+    // Fisher-Yates shuffle
+    for (let i = tiles.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[tiles[i], tiles[j]] = [tiles[j], tiles[i]]
+    }
+
+    if (!this.isReachable(tiles)) {
+      ;[tiles[0], tiles[1]] = [tiles[1], tiles[0]]
+    }
+
+    const board: number[][] = []
+    for (let row = 0; row < this.rows; row++) {
+      board.push(tiles.slice(row * this.cols, (row + 1) * this.cols))
+    }
+    return board
+  }
+
+  /**
+   * Check whether tiles in row-major order can be rotated into the goal.
+   * With an even side some rotation is an odd permutation and every board
+   * can be reached; when both sides are odd every rotation is an even
+   * permutation, so only even permutations of the goal can be reached.
+   */
+  private isReachable(tiles: number[]): boolean {
+    if (this.rows % 2 === 0 || this.cols % 2 === 0) return true
+
+    // Tiles are 1..n, so tile t belongs at index t - 1
+    const visited = new Array<boolean>(tiles.length).fill(false)
+    let swaps = 0
+    for (let start = 0; start < tiles.length; start++) {
+      let cycleLength = 0
+      for (let index = start; !visited[index]; index = tiles[index] - 1) {
+        visited[index] = true
+        cycleLength++
+      }
+      if (cycleLength > 0) swaps += cycleLength - 1
+    }
+
+    return swaps % 2 === 0
+  }
+
+  /**
+   * Check that a board fits this model and can be solved
+   * @throws InvalidBoardError describing the first problem found
+   */
+  private validateBoard(board: unknown): number[][] {
+    if (!Array.isArray(board) || board.length !== this.rows ||
+        board.some(row => !Array.isArray(row) || row.length !== this.cols)) {
+      throw new InvalidBoardError('shape', `Board must be ${this.rows}×${this.cols}`)
+    }
+
+    const cellCount = this.rows * this.cols
+    const seen = new Set<number>()
+
+    for (const row of board as unknown[][]) {
+      for (const value of row) {
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > cellCount) {
+          throw new InvalidBoardError('values', `Tiles must be whole numbers from 1 to ${cellCount}`)
+        }
+        if (seen.has(value)) {
+          throw new InvalidBoardError('duplicate', `Tile ${value} appears more than once`)
+        }
+        seen.add(value)
+      }
+    }
+
+    const validBoard = board as number[][]
+    if (!this.isReachable(validBoard.flat())) {
+      throw new InvalidBoardError('unsolvable', 'Board cannot be solved')
+    }
+
+    return validBoard
+  }
+
+  /**
+   * Create the solved board: tiles 1..rows*cols in row-major order
+   */
+  private createSolvedBoard(): number[][] {
+    return Array.from({ length: this.rows }, (_, row) =>
+      Array.from({ length: this.cols }, (_, col) => row * this.cols + col + 1))
+  }
+
+  /**
+   * Helper method to deep copy a board
+   */
+  private copyBoard(board: number[][]): number[][] {
+    return board.map(row => [...row])
+  }
+}
@@ -0,0 +1,108 @@
+import { MoveRecord, Position } from './PuzzleModel'
+
+/**
+ * Direction the tiles slide in a move
+ * - U: up, the empty space ends up below where it was
+ * - D: down
+ * - L: left
+ * - R: right
+ */
+export type MoveDirection = 'U' | 'D' | 'L' | 'R'
+
+/**
+ * One move in notation: a slide of one or more tiles in the same direction,
+ * written as the direction followed by the count when it is above one,
+ * e.g. "R" or "U3"
+ */
+export interface NotatedMove {
+  direction: MoveDirection
+  /** Number of tiles that slide, i.e. how far the empty space travels */
+  count: number
+}
+
+/**
+ * Error thrown when a notation string cannot be read or applied
+ */
+export class InvalidNotationError extends Error {
+  /** Index of the offending move in the string, counting from 0 */
+  readonly moveIndex: number
+
+  constructor(moveIndex: number, message: string) {
+    super(message)
+    this.name = 'InvalidNotationError'
+    this.moveIndex = moveIndex
+  }
+}
+
+// Row and column step of the tiles for each direction
+const DIRECTION_STEPS: Record<MoveDirection, Position> = {
+  U: { row: -1, col: 0 },
+  D: { row: 1, col: 0 },
+  L: { row: 0, col: -1 },
+  R: { row: 0, col: 1 }
+}
+
+// A direction letter with an optional repeat count
+const MOVE_PATTERN = /([UDLR])(\d*)/y
+
+/**
+ * Describe a move from the history in notation
+ */
+export const notateMove = (move: MoveRecord): NotatedMove => {
+  const { tile, empty } = move
+
+  // Tiles slide from the clicked cell towards where the empty space was
+  if (tile.row === empty.row) {
+    return { direction: tile.col > empty.col ? 'L' : 'R', count: Math.abs(tile.col - empty.col) }
+  }
+
+  return { direction: tile.row > empty.row ? 'U' : 'D', count: Math.abs(tile.row - empty.row) }
+}
+
+/**
+ * Get the cell to click for a move, given where the empty space is
+ */
+export const getMoveTile = (move: NotatedMove, empty: Position): Position => {
+  const step = DIRECTION_STEPS[move.direction]
+
+  // The clicked tile lies opposite to the direction the tiles slide
+  return {
+    row: empty.row - step.row * move.count,
+    col: empty.col - step.col * move.count
+  }
+}
+
+/**
+ * Write moves as a compact string, e.g. "RU3LD"
+ */
+export const formatNotation = (moves: NotatedMove[]): string => {
+  return moves.map(({ direction, count }) => count === 1 ? direction : `${direction}${count}`).join('')
+}
+
+/**
+ * Read a notation string. Whitespace and commas between moves are ignored
+ * and letters may be lower case.
+ * @throws InvalidNotationError if the string holds anything but moves
+ */
+export const parseNotation = (text: string): NotatedMove[] => {
+  const compact = text.toUpperCase().replace(/[\s,]+/g, '')
+  const pattern = new RegExp(MOVE_PATTERN)
+  const moves: NotatedMove[] = []
+
+  while (pattern.lastIndex < compact.length) {
+    const position = pattern.lastIndex
+    const match = pattern.exec(compact)
+    if (!match) {
+      throw new InvalidNotationError(moves.length, `Unexpected "${compact[position]}" in move ${moves.length + 1}`)
+    }
+
+    const count = match[2] ? parseInt(match[2], 10) : 1
+    if (count < 1) {
+      throw new InvalidNotationError(moves.length, `Move ${moves.length + 1} must slide at least one tile`)
+    }
+
+    moves.push({ direction: match[1] as MoveDirection, count })
+  }
+
+  return moves
+}
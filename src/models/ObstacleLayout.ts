@@ -0,0 +1,61 @@
+import { BoardSize, Position } from './PuzzleModel'
+
+/**
+ * Cells that are taken out of play
+ * - none: every cell is open
+ * - center: the middle cell is blocked
+ * - corners: the top-right and bottom-left corners are blocked
+ * - pillars: every other cell inside the board is blocked
+ * - locked: the pillar cells hold tiles that never move
+ * Boards with fewer than three rows or columns have no room to spare and
+ * always play without obstacles.
+ */
+export type ObstacleLayout = 'none' | 'center' | 'corners' | 'pillars' | 'locked'
+
+/**
+ * Get the cells a layout blocks
+ */
+export const getBlockedCells = (size: BoardSize, layout: ObstacleLayout): Position[] => {
+  return layout === 'locked' ? [] : getObstacleCells(size, layout)
+}
+
+/**
+ * Get the tiles a layout locks in place on a goal board
+ */
+export const getLockedTiles = (goal: number[][], layout: ObstacleLayout): number[] => {
+  if (layout !== 'locked') return []
+
+  const size = { rows: goal.length, cols: goal[0].length }
+  return getObstacleCells(size, layout)
+    .map(({ row, col }) => goal[row][col])
+    .filter(value => value > 0)
+}
+
+/**
+ * Cells a layout takes out of play, whether blocked or locked
+ */
+const getObstacleCells = (size: BoardSize, layout: ObstacleLayout): Position[] => {
+  const { rows, cols } = size
+  if (rows < 3 || cols < 3) return []
+
+  switch (layout) {
+    case 'center':
+      return [{ row: Math.floor((rows - 1) / 2), col: Math.floor((cols - 1) / 2) }]
+
+    case 'corners':
+      return [{ row: 0, col: cols - 1 }, { row: rows - 1, col: 0 }]
+
+    case 'pillars':
+    case 'locked': {
+      // Odd rows and columns away from the last ones, so the edges stay open
+      const cells: Position[] = []
+      for (let row = 1; row < rows - 1; row += 2) {
+        for (let col = 1; col < cols - 1; col += 2) cells.push({ row, col })
+      }
+      return cells
+    }
+
+    default:
+      return []
+  }
+}
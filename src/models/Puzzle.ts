@@ -0,0 +1,234 @@
+import { BoardSize, MoveRecord, PuzzleModel } from './PuzzleModel'
+import { LoopoverModel, RotationMove } from './LoopoverModel'
+import { Difficulty } from './ScrambleGenerator'
+import { EventListener } from '../utils/events'
+import { isCount, isRecord } from '../utils/helpers'
+
+/**
+ * Puzzle families the game can be played with
+ * - sliding: tiles slide into a single empty space
+ * - loopover: no empty space; whole rows and columns rotate with wrap-around
+ */
+export type PuzzleVariant = 'sliding' | 'loopover'
+
+/**
+ * How a move event came about
+ * - move: a new move
+ * - undo: the last move was taken back
+ * - redo: an undone move was replayed
+ */
+export type MoveKind = 'move' | 'undo' | 'redo'
+
+/**
+ * Number of moves, undos and redos
+ */
+export interface MoveTally {
+  /** New moves, not counting redos */
+  moves: number
+  undos: number
+  redos: number
+}
+
+/**
+ * Moves made since the last reset or scramble
+ */
+export interface MoveCounters extends MoveTally {
+  /**
+   * The same counts in single steps: every tile a slide moves, or every
+   * cell a loopover line is rotated by
+   */
+  steps: MoveTally
+}
+
+/**
+ * How close a board is to the goal
+ */
+export interface ProgressMetrics {
+  /** Movable tiles sitting on their goal cell */
+  tilesInPlace: number
+  /** Number of movable tiles */
+  tileCount: number
+  /** Sum of every tile's distance from its goal cell */
+  distance: number
+  /** Estimated progress from the scramble to the goal, 0-100 */
+  percent: number
+}
+
+/**
+ * A game in progress, as taken from one model to be put in place on another
+ * @typeParam Move Record of a single move kept in the history
+ * @typeParam Variant Puzzle family the snapshot was taken from
+ */
+export interface PuzzleSnapshot<Move, Variant extends PuzzleVariant = PuzzleVariant> {
+  variant: Variant
+  board: number[][]
+  seed: number | null
+  /** Moves that can be undone, oldest first */
+  history: Move[]
+  /** Undone moves that can be redone, the next one last */
+  redoStack: Move[]
+  counters: MoveCounters
+}
+
+/**
+ * Events a puzzle emits, mapped to their payloads
+ * @typeParam Move Record of a single move kept in the history
+ */
+export interface PuzzleEvents<Move> {
+  /** A move was made, undone or redone */
+  move: { move: Move; kind: MoveKind; counters: MoveCounters }
+  /** A move left the board in the goal arrangement */
+  solved: { counters: MoveCounters }
+  /** The board went back to the goal and the history was cleared */
+  reset: { counters: MoveCounters }
+  /** The board was replaced by a scramble, a loaded position or a snapshot */
+  shuffled: { seed: number | null; counters: MoveCounters }
+}
+
+/**
+ * Operations shared by every puzzle family. How a move is made differs per
+ * family, so moves are only visible here through the history.
+ * @typeParam Move Record of a single move kept in the history
+ */
+export interface Puzzle<Move> {
+  /** Puzzle family of this model */
+  readonly variant: PuzzleVariant
+
+  getSize(): BoardSize
+  getRows(): number
+  getCols(): number
+  getSeed(): number | null
+  getBoard(): number[][]
+  getGoal(): number[][]
+  /** Zobrist hash of the board, kept up to date move by move */
+  getHash(): number
+  /** Canonical string for the board */
+  getStateKey(): string
+  isSolved(): boolean
+  reset(): void
+  scramble(difficulty?: Difficulty, seed?: number): void
+  loadBoard(board: unknown, seed?: number | null): void
+  undo(): Move | null
+  redo(): Move | null
+  canUndo(): boolean
+  canRedo(): boolean
+  getHistory(): Move[]
+  getCounters(): MoveCounters
+  getProgress(): ProgressMetrics
+  getSnapshot(): PuzzleSnapshot<Move>
+  restoreSnapshot(snapshot: PuzzleSnapshot<Move>): void
+  /** Listen for an event; returns a function that removes the listener */
+  on<K extends keyof PuzzleEvents<Move>>(type: K, listener: EventListener<PuzzleEvents<Move>[K]>): () => void
+}
+
+/**
+ * Create counters with nothing counted yet
+ */
+export const createCounters = (): MoveCounters => {
+  return { moves: 0, undos: 0, redos: 0, steps: { moves: 0, undos: 0, redos: 0 } }
+}
+
+/**
+ * Copy counters so callers cannot change a model's own
+ */
+export const copyCounters = (counters: MoveCounters): MoveCounters => {
+  return { ...counters, steps: { ...counters.steps } }
+}
+
+/**
+ * Count a move, undo or redo
+ * @param steps Number of single steps the move is made of
+ */
+export const tallyMove = (counters: MoveCounters, kind: MoveKind, steps: number): void => {
+  const key: `${MoveKind}s` = `${kind}s`
+  counters[key]++
+  counters.steps[key] += steps
+}
+
+/**
+ * Combine tile counts and distances into progress metrics. The percentage
+ * is how much of the distance left by the scramble has been covered.
+ * @param startDistance Distance right after the board was scrambled or loaded
+ */
+export const createProgress = (
+  tilesInPlace: number,
+  tileCount: number,
+  distance: number,
+  startDistance: number
+): ProgressMetrics => {
+  let percent = 100
+  if (distance > 0) {
+    percent = startDistance > 0 ? Math.round(100 * (1 - distance / startDistance)) : 0
+  }
+
+  return {
+    tilesInPlace,
+    tileCount,
+    distance,
+    percent: Math.max(0, Math.min(100, percent))
+  }
+}
+
+/**
+ * Check that a value received from a peer is a set of progress metrics
+ */
+export const isProgressMetrics = (value: unknown): value is ProgressMetrics => {
+  if (!isRecord(value)) return false
+
+  const { tilesInPlace, tileCount, distance, percent } = value
+  return isCount(tilesInPlace) && isCount(tileCount) && isCount(distance) && isCount(percent) &&
+    tilesInPlace <= tileCount &&
+    percent <= 100
+}
+
+/**
+ * Check that a value received from a peer is a set of move counters
+ */
+export const isMoveCounters = (value: unknown): value is MoveCounters => {
+  const isTally = (tally: unknown) => isRecord(tally) &&
+    isCount(tally.moves) && isCount(tally.undos) && isCount(tally.redos)
+
+  return isRecord(value) && isTally(value) && isTally(value.steps)
+}
+
+/**
+ * Any puzzle model the controllers can play
+ */
+export type GamePuzzle = PuzzleModel | LoopoverModel
+
+/**
+ * A snapshot of either puzzle family
+ */
+export type GameSnapshot = PuzzleSnapshot<MoveRecord, 'sliding'> | PuzzleSnapshot<RotationMove, 'loopover'>
+
+/**
+ * Put a snapshot in place on a puzzle of the same family
+ * @returns false if the snapshot was taken from the other family
+ * @throws InvalidBoardError if the snapshot does not fit the puzzle
+ */
+export const restoreGameSnapshot = (model: GamePuzzle, snapshot: GameSnapshot): boolean => {
+  if (model.variant === 'sliding' && snapshot.variant === 'sliding') {
+    model.restoreSnapshot(snapshot)
+    return true
+  }
+  if (model.variant === 'loopover' && snapshot.variant === 'loopover') {
+    model.restoreSnapshot(snapshot)
+    return true
+  }
+
+  return false
+}
+
+/**
+ * Create an unscrambled puzzle of a family
+ * @param goal Goal board for sliding puzzles; loopover boards always use the standard order
+ * @param locked Tiles of a sliding puzzle that never move
+ * @throws InvalidBoardError if the goal does not hold each tile once
+ */
+export const createPuzzle = (variant: PuzzleVariant, size: BoardSize, goal?: number[][], locked?: number[]): GamePuzzle => {
+  if (variant === 'loopover') {
+    return new LoopoverModel(size.rows, size.cols)
+  }
+
+  return new PuzzleModel(size.rows, size.cols, { goal, locked })
+}
@@ -1,36 +1,164 @@
+import { createSeededRandom, randomSeed } from '../utils/random'
+import { Difficulty, ScrambleGenerator } from './ScrambleGenerator'
+import { EXHAUSTIVE_MAX_CELLS, OBSTACLE, canReachGoal, getOpenArea } from './PuzzleSolver'
+import { MoveCounters, MoveKind, ProgressMetrics, Puzzle, PuzzleEvents, PuzzleSnapshot, copyCounters, createCounters, createProgress, tallyMove } from './Puzzle'
+import { EventEmitter, EventListener } from '../utils/events'
+import { InvalidNotationError, NotatedMove, formatNotation, getMoveTile, notateMove, parseNotation } from './MoveNotation'
+import { ZobristTable, createStateKey, getZobristTable } from './BoardHash'
+
 /**
- * Represents the sliding puzzle game model with core game logic
+ * Number of rows and columns of a puzzle board
  */
-export class PuzzleModel {
+export interface BoardSize {
+  rows: number
+  cols: number
+}
+
+/**
+ * A cell on the board
+ */
+export interface Position {
+  row: number
+  col: number
+}
+
+/**
+ * A move kept in the history
+ */
+export interface MoveRecord {
+  /** Position of the clicked tile, where the empty space ends up */
+  tile: Position
+  /** Position of the empty space before the move */
+  empty: Position
+}
+
+/**
+ * Why a board or goal was rejected by PuzzleModel
+ * - shape: not a grid of the model's size
+ * - values: a cell is not an integer tile number in range
+ * - duplicate: a tile appears more than once
+ * - unsolvable: the tiles cannot be slid into the goal
+ * - fixed: a blocked cell or locked tile is not where the goal has it
+ * - walled: blocked cells split the open cells into separate regions
+ * - history: the moves of a snapshot cannot be made on its board
+ */
+export type InvalidBoardReason = 'shape' | 'values' | 'duplicate' | 'unsolvable' | 'fixed' | 'walled' | 'history'
+
+/**
+ * Error thrown when loading a board that is malformed or cannot be solved
+ */
+export class InvalidBoardError extends Error {
+  readonly reason: InvalidBoardReason
+
+  constructor(reason: InvalidBoardReason, message: string) {
+    super(message)
+    this.name = 'InvalidBoardError'
+    this.reason = reason
+  }
+}
+
+/**
+ * Optional settings for a new puzzle model
+ */
+export interface PuzzleModelOptions {
+  /** Scramble the board right away using this seed */
+  seed?: number
+  /**
+   * Arrangement that counts as solved, e.g. from createGoalBoard; standard
+   * order when omitted. Cells holding OBSTACLE are blocked for the whole game.
+   */
+  goal?: number[][]
+  /** Tiles that never leave their goal cell */
+  locked?: number[]
+  /** Difficulty of that initial scramble, uniformly random by default */
+  difficulty?: Difficulty
+}
+
+/**
+ * Represents the sliding puzzle game model with core game logic.
+ * Listeners added with on() hear about every move, reset and scramble.
+ */
+export class PuzzleModel implements Puzzle<MoveRecord> {
+  readonly variant = 'sliding' as const
   private board: number[][]
-  private emptyPosition: { row: number; col: number }
+  private hash: number
+  private emptyPosition: Position
+  private history: MoveRecord[] = []
+  private redoStack: MoveRecord[] = []
+  private counters: MoveCounters = createCounters()
+  private startDistance: number = 0
+  private seed: number | null = null
+  private readonly events = new EventEmitter<PuzzleEvents<MoveRecord>>()
   private readonly solution: number[][]
-  private readonly dimension: number
+  private readonly locked: Set<number>
+  private readonly zobrist: ZobristTable
+  private readonly rows: number
+  private readonly cols: number
 
   /**
    * Create a new puzzle model
-   * @param dimension Size of the puzzle grid (e.g., 3 for 3x3)
+   * @param rows Number of rows in the puzzle grid (e.g., 3 for 3x3)
+   * @param cols Number of columns, defaults to rows for a square board
+   * @param options Optional settings such as a seed for the initial scramble
+   * @throws InvalidBoardError if the goal does not hold each tile once, its
+   *   blocked cells split the board or a locked tile is not in the goal
    */
-  constructor(dimension: number = 3) {
-    // Ensure dimension is within valid range (2-8)
-    this.dimension = Math.max(2, Math.min(8, dimension))
+  constructor(rows: number = 3, cols: number = rows, options: PuzzleModelOptions = {}) {
+    // Ensure both sides are within valid range (2-8)
+    this.rows = Math.max(2, Math.min(8, rows))
+    this.cols = Math.max(2, Math.min(8, cols))
     
     // Initialize solution and board
-    this.solution = this.createSolvedBoard()
+    this.solution = options.goal ?
+      this.copyBoard(this.validateGoal(options.goal)) :
+      this.createSolvedBoard()
+    this.locked = new Set(this.validateLocked(options.locked ?? []))
     this.board = this.copyBoard(this.solution)
+    this.zobrist = getZobristTable(this.rows, this.cols)
+    this.hash = this.zobrist.hashBoard(this.board)
     
-    // Set initial empty position to bottom right
-    this.emptyPosition = {
-      row: this.dimension - 1,
-      col: this.dimension - 1
+    // Start with the empty space where the goal has it
+    this.emptyPosition = this.findEmptyPosition()
+    
+    if (options.seed !== undefined) {
+      this.scramble(options.difficulty, options.seed)
     }
   }
 
   /**
    * Get the current size of the puzzle
    */
-  getDimension(): number {
-    return this.dimension
+  getSize(): BoardSize {
+    return { rows: this.rows, cols: this.cols }
+  }
+
+  /**
+   * Get the number of rows
+   */
+  getRows(): number {
+    return this.rows
+  }
+
+  /**
+   * Get the number of columns
+   */
+  getCols(): number {
+    return this.cols
+  }
+
+  /**
+   * Get the seed of the current scramble
+   * @returns The seed, or null if the board was not produced by shuffle
+   */
+  getSeed(): number | null {
+    return this.seed
+  }
+
+  /**
+   * Get the arrangement that counts as solved
+   */
+  getGoal(): number[][] {
+    return this.copyBoard(this.solution)
   }
 
   /**
@@ -40,12 +168,45 @@ export class PuzzleModel {
     return this.copyBoard(this.board)
   }
 
+  /**
+   * Get the Zobrist hash of the board. Equal boards of the same size always
+   * hash the same, on every device; different boards almost never do.
+   */
+  getHash(): number {
+    return this.hash
+  }
+
+  /**
+   * Get a canonical string for the board, for comparisons that must be exact
+   */
+  getStateKey(): string {
+    return createStateKey(this.board)
+  }
+
+  /**
+   * Get the tiles that never leave their goal cell
+   */
+  getLockedTiles(): number[] {
+    return [...this.locked]
+  }
+
+  /**
+   * Get the board and goal with locked tiles turned into blocked cells, the
+   * form PuzzleSolver and ScrambleGenerator work with
+   */
+  getSolverBoards(): { board: number[][]; goal: number[][] } {
+    return {
+      board: this.withWalls(this.board),
+      goal: this.withWalls(this.solution)
+    }
+  }
+
   /**
    * Check if the puzzle is solved
    */
   isSolved(): boolean {
-    for (let row = 0; row < this.dimension; row++) {
-      for (let col = 0; col < this.dimension; col++) {
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
         if (this.board[row][col] !== this.solution[row][col]) {
           return false
         }
@@ -65,15 +226,45 @@ export class PuzzleModel {
   }
 
   /**
-   * Check if a tile can be moved (in same row or column as empty space)
+   * Check if a cell is blocked or holds a locked tile
+   */
+  isFixed(row: number, col: number): boolean {
+    if (!this.isValidPosition(row, col)) return false
+    
+    const value = this.board[row][col]
+    return value === OBSTACLE || this.locked.has(value)
+  }
+
+  /**
+   * Get the position of the empty space
+   */
+  getEmptyPosition(): Position {
+    return { ...this.emptyPosition }
+  }
+
+  /**
+   * Check if a tile can be moved (in same row or column as empty space,
+   * with no blocked cell or locked tile in between)
    */
   canMoveTile(row: number, col: number): boolean {
     if (!this.isValidPosition(row, col)) return false
     
     const { row: emptyRow, col: emptyCol } = this.emptyPosition
     
+    // The empty space itself is not a tile
+    if (row === emptyRow && col === emptyCol) return false
+    
     // Allow movement if tile is in the same row or column as the empty space
-    return (row === emptyRow || col === emptyCol)
+    if (row !== emptyRow && col !== emptyCol) return false
+    
+    // Every tile that would slide must be free to move
+    const rowStep = Math.sign(emptyRow - row)
+    const colStep = Math.sign(emptyCol - col)
+    for (let r = row, c = col; r !== emptyRow || c !== emptyCol; r += rowStep, c += colStep) {
+      if (this.isFixed(r, c)) return false
+    }
+    
+    return true
   }
 
   /**
@@ -109,10 +300,230 @@ export class PuzzleModel {
   }
 
   /**
-   * Move a tile if possible
+   * Move a tile if possible and record it in the history
    * @returns true if move was successful
    */
   moveTile(row: number, col: number): boolean {
+    const empty = { ...this.emptyPosition }
+    
+    if (!this.applyMove(row, col)) return false
+    
+    // A new move invalidates anything that could be redone
+    const move = { tile: { row, col }, empty }
+    this.history.push(move)
+    this.redoStack = []
+    
+    tallyMove(this.counters, 'move', this.countSteps(move))
+    this.emitMove(move, 'move')
+    
+    return true
+  }
+
+  /**
+   * Take back the last move
+   * @returns The move that was undone, or null if there is nothing to undo
+   */
+  undo(): MoveRecord | null {
+    const move = this.history.pop()
+    if (!move) return null
+    
+    // Clicking the old empty position slides the same tiles back
+    this.applyMove(move.empty.row, move.empty.col)
+    this.redoStack.push(move)
+    
+    tallyMove(this.counters, 'undo', this.countSteps(move))
+    this.emitMove(move, 'undo')
+    
+    return move
+  }
+
+  /**
+   * Replay the last undone move
+   * @returns The move that was redone, or null if there is nothing to redo
+   */
+  redo(): MoveRecord | null {
+    const move = this.redoStack.pop()
+    if (!move) return null
+    
+    this.applyMove(move.tile.row, move.tile.col)
+    this.history.push(move)
+    
+    tallyMove(this.counters, 'redo', this.countSteps(move))
+    this.emitMove(move, 'redo')
+    
+    return move
+  }
+
+  /**
+   * Check if there is a move to undo
+   */
+  canUndo(): boolean {
+    return this.history.length > 0
+  }
+
+  /**
+   * Check if there is a move to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Get the moves made since the last reset or shuffle, oldest first
+   */
+  getHistory(): MoveRecord[] {
+    return this.history.map(move => ({
+      tile: { ...move.tile },
+      empty: { ...move.empty }
+    }))
+  }
+
+  /**
+   * Get how many moves, undos and redos were made since the last reset or shuffle
+   */
+  getCounters(): MoveCounters {
+    return copyCounters(this.counters)
+  }
+
+  /**
+   * Measure how close the board is to the goal. Locked tiles never move and
+   * are left out.
+   */
+  getProgress(): ProgressMetrics {
+    const goalPositions = new Map<number, Position>()
+    this.solution.forEach((rowValues, row) => {
+      rowValues.forEach((value, col) => goalPositions.set(value, { row, col }))
+    })
+    
+    let tilesInPlace = 0
+    let tileCount = 0
+    let distance = 0
+    this.board.forEach((rowValues, row) => {
+      rowValues.forEach((value, col) => {
+        if (value <= 0 || this.locked.has(value)) return
+        
+        const goal = goalPositions.get(value)!
+        const tileDistance = Math.abs(goal.row - row) + Math.abs(goal.col - col)
+        tileCount++
+        if (tileDistance === 0) tilesInPlace++
+        distance += tileDistance
+      })
+    })
+    
+    return createProgress(tilesInPlace, tileCount, distance, this.startDistance)
+  }
+
+  /**
+   * Take a copy of the game in progress, to put in place on another model
+   */
+  getSnapshot(): PuzzleSnapshot<MoveRecord, 'sliding'> {
+    const copyMove = (move: MoveRecord) => ({ tile: { ...move.tile }, empty: { ...move.empty } })
+    
+    return {
+      variant: this.variant,
+      board: this.getBoard(),
+      seed: this.seed,
+      history: this.history.map(copyMove),
+      redoStack: this.redoStack.map(copyMove),
+      counters: this.getCounters()
+    }
+  }
+
+  /**
+   * Put a game in progress in place, e.g. one received from a peer. Its
+   * moves are checked by replaying them, and the model is left untouched if
+   * the snapshot is rejected.
+   * @throws InvalidBoardError if the board is malformed or unsolvable, or
+   *   the history or redo stack cannot be played on it
+   */
+  restoreSnapshot(snapshot: PuzzleSnapshot<MoveRecord>): void {
+    const board = this.copyBoard(this.validateBoard(snapshot.board))
+    
+    // Taking back every move leads to the starting board, which the
+    // progress estimate is measured from
+    const start = this.copyPosition()
+    start.replaceBoard(this.copyBoard(board))
+    const redone = this.copyPosition()
+    redone.replaceBoard(this.copyBoard(board))
+    
+    const playable = [...snapshot.history].reverse().every(move => start.replayMove(move, true)) &&
+      [...snapshot.redoStack].reverse().every(move => redone.replayMove(move, false))
+    if (!playable) {
+      throw new InvalidBoardError('history', 'The moves of the snapshot do not fit its board')
+    }
+    
+    this.history = snapshot.history.map(move => ({ tile: { ...move.tile }, empty: { ...move.empty } }))
+    this.redoStack = snapshot.redoStack.map(move => ({ tile: { ...move.tile }, empty: { ...move.empty } }))
+    this.counters = copyCounters(snapshot.counters)
+    this.seed = snapshot.seed
+    this.replaceBoard(board)
+    this.startDistance = start.getProgress().distance
+    
+    this.events.emit('shuffled', { seed: this.seed, counters: this.getCounters() })
+  }
+
+  /**
+   * Listen for moves, solves, resets and scrambles
+   * @returns Function that removes the listener again
+   */
+  on<K extends keyof PuzzleEvents<MoveRecord>>(type: K, listener: EventListener<PuzzleEvents<MoveRecord>[K]>): () => void {
+    return this.events.on(type, listener)
+  }
+
+  /**
+   * Get the moves made since the last reset or shuffle in move notation,
+   * e.g. "RU3LD"
+   */
+  getNotation(): string {
+    return formatNotation(this.history.map(notateMove))
+  }
+
+  /**
+   * Make a series of moves given in move notation, recording each one in the
+   * history. Either every move is made or, if one cannot be, none are.
+   * @param notation Notation string such as "RU3LD", or already parsed moves
+   * @returns The moves made, in history form
+   * @throws InvalidNotationError if the string is malformed or a move is not possible
+   */
+  applyNotation(notation: string | NotatedMove[]): MoveRecord[] {
+    const moves = typeof notation === 'string' ? parseNotation(notation) : notation
+    
+    // Try the moves on a copy first so listeners only hear about moves that stick
+    const trial = this.copyPosition()
+    moves.forEach((move, i) => {
+      const { row, col } = getMoveTile(move, trial.emptyPosition)
+      if (!trial.applyMove(row, col)) {
+        throw new InvalidNotationError(i, `Move ${i + 1} (${formatNotation([move])}) is not possible`)
+      }
+    })
+    
+    const historyLength = this.history.length
+    moves.forEach(move => {
+      const { row, col } = getMoveTile(move, this.emptyPosition)
+      this.moveTile(row, col)
+    })
+    
+    return this.getHistory().slice(historyLength)
+  }
+
+  /**
+   * Make a recorded move, or take it back, without touching the history
+   * @returns false if the empty space is not where the record has it or the
+   *   tiles cannot slide
+   */
+  private replayMove(move: MoveRecord, backwards: boolean): boolean {
+    const from = backwards ? move.tile : move.empty
+    const to = backwards ? move.empty : move.tile
+    
+    return this.emptyPosition.row === from.row && this.emptyPosition.col === from.col &&
+      this.applyMove(to.row, to.col)
+  }
+
+  /**
+   * Slide the tiles between a clicked tile and the empty space
+   * @returns true if move was successful
+   */
+  private applyMove(row: number, col: number): boolean {
     if (!this.canMoveTile(row, col)) return false
     
     const { row: emptyRow, col: emptyCol } = this.emptyPosition
@@ -133,7 +544,8 @@ export class PuzzleModel {
   }
 
   /**
-   * Shift all tiles in a row between the clicked tile and the empty space
+   * Shift all tiles in a row between the clicked tile and the empty space.
+   * Callers check canMoveTile first, so no fixed cell lies in the way.
    */
   private shiftRow(row: number, clickedCol: number): void {
     const { col: emptyCol } = this.emptyPosition
@@ -144,18 +556,19 @@ export class PuzzleModel {
     // Move all tiles between the empty space and the clicked tile
     for (let col = emptyCol; col !== clickedCol; col += direction) {
       const nextCol = col + direction
-      this.board[row][col] = this.board[row][nextCol]
+      this.setCell(row, col, this.board[row][nextCol])
     }
     
     // Place empty at the clicked position
-    this.board[row][clickedCol] = 0
+    this.setCell(row, clickedCol, 0)
     
     // Update empty position
     this.emptyPosition = { row, col: clickedCol }
   }
 
   /**
-   * Shift all tiles in a column between the clicked tile and the empty space
+   * Shift all tiles in a column between the clicked tile and the empty space.
+   * Callers check canMoveTile first, so no fixed cell lies in the way.
    */
   private shiftColumn(col: number, clickedRow: number): void {
     const { row: emptyRow } = this.emptyPosition
@@ -166,11 +579,11 @@ export class PuzzleModel {
     // Move all tiles between the empty space and the clicked tile
     for (let row = emptyRow; row !== clickedRow; row += direction) {
       const nextRow = row + direction
-      this.board[row][col] = this.board[nextRow][col]
+      this.setCell(row, col, this.board[nextRow][col])
     }
     
     // Place empty at the clicked position
-    this.board[clickedRow][col] = 0
+    this.setCell(clickedRow, col, 0)
     
     // Update empty position
     this.emptyPosition = { row: clickedRow, col }
@@ -180,39 +593,275 @@ export class PuzzleModel {
    * Reset the puzzle to the solved state
    */
   reset(): void {
-    this.board = this.copyBoard(this.solution)
-    this.emptyPosition = {
-      row: this.dimension - 1,
-      col: this.dimension - 1
+    this.restart()
+    this.events.emit('reset', { counters: this.getCounters() })
+  }
+
+  /**
+   * Put the goal back on the board and forget the history and counters
+   */
+  private restart(): void {
+    this.history = []
+    this.redoStack = []
+    this.counters = createCounters()
+    this.startDistance = 0
+    this.seed = null
+    this.replaceBoard(this.copyBoard(this.solution))
+  }
+
+  /**
+   * Put a whole new board in place and hash it from scratch
+   */
+  private replaceBoard(board: number[][]): void {
+    this.board = board
+    this.hash = this.zobrist.hashBoard(board)
+    this.emptyPosition = this.findEmptyPosition()
+  }
+
+  /**
+   * Change one cell, keeping the hash up to date
+   */
+  private setCell(row: number, col: number, value: number): void {
+    this.hash = this.zobrist.toggle(this.hash, row, col, this.board[row][col])
+    this.hash = this.zobrist.toggle(this.hash, row, col, value)
+    this.board[row][col] = value
+  }
+
+  /**
+   * Number of tiles a move slides
+   */
+  private countSteps(move: MoveRecord): number {
+    return Math.abs(move.tile.row - move.empty.row) + Math.abs(move.tile.col - move.empty.col)
+  }
+
+  /**
+   * Tell listeners about a move, and about the solve if it completed the puzzle
+   */
+  private emitMove(move: MoveRecord, kind: MoveKind): void {
+    const counters = this.getCounters()
+    this.events.emit('move', {
+      move: { tile: { ...move.tile }, empty: { ...move.empty } },
+      kind,
+      counters
+    })
+    
+    if (this.isSolved()) {
+      this.events.emit('solved', { counters })
     }
   }
 
   /**
-   * Shuffle the puzzle with random moves
+   * Remember the new board's distance for the progress estimate and tell
+   * listeners that the board was replaced
+   */
+  private emitShuffled(): void {
+    this.startDistance = this.getProgress().distance
+    this.events.emit('shuffled', { seed: this.seed, counters: this.getCounters() })
+  }
+
+  /**
+   * Shuffle the puzzle with random moves. The same seed, size and move
+   * count always produce the same scramble.
+   * @param moves Minimum number of random moves
+   * @param seed Seed for the scramble; a fresh one is picked when omitted
    */
-  shuffle(moves = 200): void {
+  shuffle(moves = 200, seed: number = randomSeed()): void {
     // Reset to ensure we start from a solvable state
-    this.reset()
+    this.restart()
+    this.seed = seed >>> 0
+    
+    const random = createSeededRandom(this.seed)
     
     // Scale moves by puzzle size
-    const shuffleMoves = Math.max(moves, this.dimension * this.dimension * 10)
+    const shuffleMoves = Math.max(moves, this.rows * this.cols * 10)
     
-    // Make random moves to shuffle
-    for (let i = 0; i < shuffleMoves; i++) {
+    // Make random moves to shuffle, continuing until the puzzle is not already solved
+    for (let i = 0; i < shuffleMoves || this.isSolved(); i++) {
       const possibleMoves = this.getPossibleMoves()
+      if (possibleMoves.length === 0) break
       
       // Choose a random move
-      const randomIndex = Math.floor(Math.random() * possibleMoves.length)
+      const randomIndex = Math.floor(random() * possibleMoves.length)
       const [moveRow, moveCol] = possibleMoves[randomIndex]
       
       // Use simple adjacent-only moves for shuffling to maintain solvability
       this.moveAdjacentTile(moveRow, moveCol)
     }
+    
+    this.emitShuffled()
+  }
 
-    // Ensure puzzle is not already solved
-    if (this.isSolved()) {
-      this.shuffle(shuffleMoves)
+  /**
+   * Replace the board with a generated scramble of the given difficulty.
+   * The same seed, size and difficulty always produce the same board.
+   * @param difficulty Target difficulty
+   * @param seed Seed for the scramble; a fresh one is picked when omitted
+   */
+  scramble(difficulty: Difficulty = 'random', seed: number = randomSeed()): void {
+    this.restart()
+    this.seed = seed >>> 0
+    
+    // Locked tiles stay put, so the generator sees them as blocked cells
+    const generator = new ScrambleGenerator(createSeededRandom(this.seed))
+    const board = generator.generate(this.getSize(), difficulty, this.withWalls(this.solution))
+    this.replaceBoard(board.map((rowValues, row) =>
+      rowValues.map((value, col) => value === OBSTACLE ? this.solution[row][col] : value)))
+    
+    this.emitShuffled()
+  }
+
+  /**
+   * Replace the board with an arbitrary position, e.g. one received from a peer.
+   * The board is validated first and the model is left untouched if it is rejected.
+   * @param board Board of the model's size holding each tile of the goal once,
+   *   with the goal's blocked cells and locked tiles in place
+   * @param seed Seed the board was generated from, if known
+   * @throws InvalidBoardError if the board is malformed or unsolvable
+   */
+  loadBoard(board: unknown, seed: number | null = null): void {
+    const validBoard = this.validateBoard(board)
+    
+    this.restart()
+    this.replaceBoard(this.copyBoard(validBoard))
+    this.seed = seed
+    
+    this.emitShuffled()
+  }
+
+  /**
+   * Check that a board fits this model and can be solved
+   * @throws InvalidBoardError describing the first problem found
+   */
+  private validateBoard(board: unknown): number[][] {
+    const validBoard = this.validateTiles(board, 'Board')
+    
+    const misplaced = validBoard.some((rowValues, row) => rowValues.some((value, col) => {
+      const goalValue = this.solution[row][col]
+      return (value === OBSTACLE) !== (goalValue === OBSTACLE) ||
+        ((this.locked.has(value) || this.locked.has(goalValue)) && value !== goalValue)
+    }))
+    if (misplaced) {
+      throw new InvalidBoardError('fixed', 'Blocked cells and locked tiles must stay where the goal has them')
+    }
+    
+    if (!canReachGoal(this.withWalls(validBoard), this.withWalls(this.solution))) {
+      throw new InvalidBoardError('unsolvable', 'Board cannot be solved')
     }
+    
+    return validBoard
+  }
+
+  /**
+   * Check that a goal holds each tile once and its open cells are connected
+   * @throws InvalidBoardError describing the first problem found
+   */
+  private validateGoal(goal: unknown): number[][] {
+    const validGoal = this.validateTiles(goal, 'Goal')
+    
+    const open = validGoal.flat().filter(value => value !== OBSTACLE).length
+    if (this.countReachable(validGoal) !== open) {
+      throw new InvalidBoardError('walled', 'Blocked cells must not cut the board into separate parts')
+    }
+    
+    return validGoal
+  }
+
+  /**
+   * Check that every locked tile is a numbered tile of the goal, that the
+   * tiles left free can still all be reached and moved, and that boards on
+   * the goal can be checked for solvability
+   * @throws InvalidBoardError describing the first problem found
+   */
+  private validateLocked(locked: number[]): number[] {
+    const tiles = new Set(this.solution.flat().filter(value => value > 0))
+    
+    for (const value of locked) {
+      if (!tiles.has(value)) {
+        throw new InvalidBoardError('values', `Locked tile ${value} is not on the board`)
+      }
+    }
+    
+    // Locked tiles never move, so they wall off cells just like blocked ones
+    const lockedSet = new Set(locked)
+    const walled = this.solution.map(row => row.map(value => lockedSet.has(value) ? OBSTACLE : value))
+    const open = walled.flat().filter(value => value !== OBSTACLE).length
+    const reachable = this.countReachable(walled)
+    
+    if (reachable !== open) {
+      throw new InvalidBoardError('walled', 'Locked tiles must not cut the board into separate parts')
+    }
+    if (reachable < 2) {
+      throw new InvalidBoardError('walled', 'At least one tile must be free to move')
+    }
+    
+    // Boards are checked for solvability when loaded, which narrow passages
+    // only allow on small boards
+    if (open > EXHAUSTIVE_MAX_CELLS && getOpenArea(walled) === 'narrow') {
+      throw new InvalidBoardError('walled',
+        `Passages one cell wide are only allowed with at most ${EXHAUSTIVE_MAX_CELLS} open cells`)
+    }
+    
+    return locked
+  }
+
+  /**
+   * Count the open cells the empty space can reach, by a flood fill that
+   * stops at blocked cells
+   */
+  private countReachable(board: number[][]): number {
+    const blank = board.flat().indexOf(0)
+    const reached = new Set<number>([blank])
+    const queue = [blank]
+    while (queue.length > 0) {
+      const cell = queue.pop()!
+      const row = Math.floor(cell / this.cols)
+      const col = cell % this.cols
+      const neighbors = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]]
+      for (const [r, c] of neighbors) {
+        const next = r * this.cols + c
+        if (this.isValidPosition(r, c) && board[r][c] !== OBSTACLE && !reached.has(next)) {
+          reached.add(next)
+          queue.push(next)
+        }
+      }
+    }
+    
+    return reached.size
+  }
+
+  /**
+   * Check that a board or goal fits this model and holds each tile once.
+   * Blocked cells hold OBSTACLE and the open cells hold 0..open-1.
+   * @param name What is being checked, used in error messages
+   * @throws InvalidBoardError describing the first problem found
+   */
+  private validateTiles(board: unknown, name: string): number[][] {
+    if (!Array.isArray(board) || board.length !== this.rows ||
+        board.some(row => !Array.isArray(row) || row.length !== this.cols)) {
+      throw new InvalidBoardError('shape', `${name} must be ${this.rows}×${this.cols}`)
+    }
+    
+    const openCount = (board as unknown[][]).flat().filter(value => value !== OBSTACLE).length
+    const seen = new Set<number>()
+    
+    if (openCount < 2) {
+      throw new InvalidBoardError('values', `${name} needs at least one tile and the empty space`)
+    }
+    
+    for (const row of board as unknown[][]) {
+      for (const value of row) {
+        if (value === OBSTACLE) continue
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value >= openCount) {
+          throw new InvalidBoardError('values', `Tiles must be whole numbers from 0 to ${openCount - 1}`)
+        }
+        if (seen.has(value)) {
+          throw new InvalidBoardError('duplicate', `Tile ${value} appears more than once`)
+        }
+        seen.add(value)
+      }
+    }
+    
+    return board as number[][]
   }
 
   /**
@@ -227,8 +876,8 @@ export class PuzzleModel {
     if ((Math.abs(row - emptyRow) === 1 && col === emptyCol) ||
         (Math.abs(col - emptyCol) === 1 && row === emptyRow)) {
       // Swap the selected tile with the empty tile
-      this.board[emptyRow][emptyCol] = this.board[row][col]
-      this.board[row][col] = 0
+      this.setCell(emptyRow, emptyCol, this.board[row][col])
+      this.setCell(row, col, 0)
       
       // Update empty position
       this.emptyPosition = { row, col }
@@ -240,17 +889,34 @@ export class PuzzleModel {
   }
 
   /**
-   * Create a solved board for the current dimension
+   * Create a model with the same goal, locked tiles and position but no
+   * history or listeners
+   */
+  private copyPosition(): PuzzleModel {
+    const copy = new PuzzleModel(this.rows, this.cols, { goal: this.solution, locked: [...this.locked] })
+    copy.replaceBoard(this.copyBoard(this.board))
+    return copy
+  }
+
+  /**
+   * Copy a board with every locked tile replaced by a blocked cell
+   */
+  private withWalls(board: number[][]): number[][] {
+    return board.map(row => row.map(value => this.locked.has(value) ? OBSTACLE : value))
+  }
+
+  /**
+   * Create the standard solved board for the current size
    */
   private createSolvedBoard(): number[][] {
     const board: number[][] = []
     let value = 1
     
-    for (let row = 0; row < this.dimension; row++) {
+    for (let row = 0; row < this.rows; row++) {
       const currentRow: number[] = []
-      for (let col = 0; col < this.dimension; col++) {
+      for (let col = 0; col < this.cols; col++) {
         // Last cell is the empty spot (0)
-        if (row === this.dimension - 1 && col === this.dimension - 1) {
+        if (row === this.rows - 1 && col === this.cols - 1) {
           currentRow.push(0)
         } else {
           currentRow.push(value++)
@@ -262,6 +928,21 @@ export class PuzzleModel {
     return board
   }
 
+  /**
+   * Locate the empty space on the board
+   */
+  private findEmptyPosition(): Position {
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (this.board[row][col] === 0) {
+          return { row, col }
+        }
+      }
+    }
+    
+    return { row: this.rows - 1, col: this.cols - 1 }
+  }
+
   /**
    * Helper method to deep copy a board
    */
@@ -273,7 +954,7 @@ export class PuzzleModel {
    * Check if a position is valid on the board
    */
   private isValidPosition(row: number, col: number): boolean {
-    return row >= 0 && row < this.dimension && col >= 0 && col < this.dimension
+    return row >= 0 && row < this.rows && col >= 0 && col < this.cols
   }
 
   /**
@@ -290,7 +971,7 @@ export class PuzzleModel {
       const newRow = row + dRow
       const newCol = col + dCol
       
-      if (this.isValidPosition(newRow, newCol)) {
+      if (this.isValidPosition(newRow, newCol) && !this.isFixed(newRow, newCol)) {
         possibleMoves.push([newRow, newCol])
       }
     }
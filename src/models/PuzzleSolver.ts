@@ -0,0 +1,599 @@
+/**
+ * A single solver step: the position of the tile to slide into the empty space
+ */
+export interface SolverMove {
+  row: number
+  col: number
+}
+
+/**
+ * Options that bound how much work the solver may do
+ */
+export interface SolverOptions {
+  /** Maximum number of nodes to expand before giving up */
+  maxNodes?: number
+  /** Called at every new depth bound and periodically while searching */
+  onProgress?: (progress: SolverProgress) => void
+  /** Number of expanded nodes between periodic progress reports */
+  progressInterval?: number
+}
+
+/**
+ * Snapshot of how far a running search has got
+ */
+export interface SolverProgress {
+  /** Number of nodes expanded so far */
+  nodesExpanded: number
+  /** Depth bound of the current IDA* iteration */
+  bound: number
+}
+
+/**
+ * Outcome of a solve attempt
+ */
+export interface SolverResult {
+  /** Moves to apply in order, each one a tile adjacent to the empty space */
+  moves: SolverMove[]
+  /** Whether applying the moves reaches the goal */
+  solved: boolean
+  /** Whether the moves are proven to be a shortest solution */
+  optimal: boolean
+  /** Number of nodes expanded during the search */
+  nodesExpanded: number
+  /** Last depth bound searched, a lower bound on the optimal solution length */
+  bound: number
+}
+
+/**
+ * Default node budget, enough for any 3x3 and most 4x4 boards
+ */
+export const DEFAULT_MAX_NODES = 5_000_000
+
+/**
+ * Default number of expanded nodes between progress reports
+ */
+export const DEFAULT_PROGRESS_INTERVAL = 100_000
+
+/**
+ * Value of a blocked cell. It never holds a tile and nothing slides through it;
+ * the board and goal must have blocked cells in the same places.
+ */
+export const OBSTACLE = -1
+
+// Sentinel returned by the search once the goal has been reached
+const FOUND = -1
+
+/**
+ * Create the standard solved board (row-major, empty space bottom-right)
+ */
+export const createSolvedBoard = (rows: number, cols: number = rows): number[][] => {
+  const board: number[][] = []
+  let value = 1
+
+  for (let row = 0; row < rows; row++) {
+    const currentRow: number[] = []
+    for (let col = 0; col < cols; col++) {
+      // Last cell is the empty spot (0)
+      currentRow.push(row === rows - 1 && col === cols - 1 ? 0 : value++)
+    }
+    board.push(currentRow)
+  }
+
+  return board
+}
+
+/**
+ * Check whether a board can be turned into the goal with sliding moves.
+ * Both boards must hold the same tiles; the permutation parity between them
+ * has to match the parity of the empty space's distance to its goal cell.
+ * Blocked cells are ignored. When there are any, the check is necessary but
+ * not sufficient, as the walls may leave too little room to reorder the
+ * tiles; canReachGoal makes the full check.
+ */
+export const isSolvable = (board: number[][], goal: number[][] = createSolvedBoard(board.length, board[0]?.length)): boolean => {
+  const cols = board[0].length
+  const tiles = board.flat()
+  const goalIndex = new Map<number, number>()
+  goal.flat().forEach((value, index) => goalIndex.set(value, index))
+
+  // Count the parity of the permutation mapping each cell to its goal cell
+  const visited = new Array<boolean>(tiles.length).fill(false)
+  let swaps = 0
+  for (let start = 0; start < tiles.length; start++) {
+    if (tiles[start] === OBSTACLE) continue
+    let cycleLength = 0
+    for (let index = start; !visited[index]; index = goalIndex.get(tiles[index])!) {
+      visited[index] = true
+      cycleLength++
+    }
+    if (cycleLength > 0) swaps += cycleLength - 1
+  }
+
+  const blank = tiles.indexOf(0)
+  const goalBlank = goalIndex.get(0)!
+  const blankDistance =
+    Math.abs(Math.floor(blank / cols) - Math.floor(goalBlank / cols)) +
+    Math.abs((blank % cols) - (goalBlank % cols))
+
+  return swaps % 2 === blankDistance % 2
+}
+
+/**
+ * Largest number of open cells a board with narrow passages may have. Such
+ * boards are checked by visiting every position reachable from them.
+ */
+export const EXHAUSTIVE_MAX_CELLS = 8
+
+/**
+ * How the open cells of a board with blocked cells are connected, which
+ * decides how to tell whether a board can be solved
+ * - loose: no open cell is a bottleneck and the cells are not one ring, so
+ *   tiles can be rearranged freely up to parity (Wilson's theorem)
+ * - ring: the open cells form a single loop that tiles only rotate around
+ * - narrow: taking some open cell away splits the rest, so tiles cannot
+ *   always pass each other
+ */
+export type OpenArea = 'loose' | 'ring' | 'narrow'
+
+/**
+ * Work out how the open cells of a board are connected. The open cells
+ * must all be reachable from each other.
+ */
+export const getOpenArea = (board: number[][]): OpenArea => {
+  const open = getOpenCells(board)
+  const neighbors = getOpenNeighbors(board)
+
+  if (open.length < 3) return 'narrow'
+  if (open.every(cell => neighbors.get(cell)!.length === 2)) return 'ring'
+
+  // A cell is a bottleneck if the others are no longer connected without it
+  for (const removed of open) {
+    const start = open.find(cell => cell !== removed)!
+    const reached = new Set<number>([removed, start])
+    const queue = [start]
+    while (queue.length > 0) {
+      neighbors.get(queue.pop()!)!.forEach(next => {
+        if (!reached.has(next)) {
+          reached.add(next)
+          queue.push(next)
+        }
+      })
+    }
+    if (reached.size !== open.length) return 'narrow'
+  }
+
+  return 'loose'
+}
+
+/**
+ * Check exactly whether a board can be turned into the goal with sliding
+ * moves, blocked cells included. Boards without blocked cells, or whose open
+ * cells are loose, only need the parity check; rings need the tiles in the
+ * same order round the loop; narrow areas are searched exhaustively.
+ * @throws Error if the goal has narrow passages and more than
+ *   EXHAUSTIVE_MAX_CELLS open cells
+ */
+export const canReachGoal = (board: number[][], goal: number[][]): boolean => {
+  if (!goal.some(row => row.includes(OBSTACLE))) return isSolvable(board, goal)
+
+  switch (getOpenArea(goal)) {
+    case 'loose':
+      return isSolvable(board, goal)
+    case 'ring':
+      return isSameRingOrder(board, goal)
+    case 'narrow':
+      return searchGoal(board, goal)
+  }
+}
+
+/**
+ * Get the open cells of a board as indices in row-major order
+ */
+const getOpenCells = (board: number[][]): number[] => {
+  return board.flat().flatMap((value, index) => value === OBSTACLE ? [] : [index])
+}
+
+/**
+ * Get the open cells next to each open cell
+ */
+const getOpenNeighbors = (board: number[][]): Map<number, number[]> => {
+  const rows = board.length
+  const cols = board[0].length
+  const neighbors = new Map<number, number[]>()
+
+  getOpenCells(board).forEach(cell => {
+    const row = Math.floor(cell / cols)
+    const col = cell % cols
+    neighbors.set(cell, [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]]
+      .filter(([r, c]) => r >= 0 && r < rows && c >= 0 && c < cols && board[r][c] !== OBSTACLE)
+      .map(([r, c]) => r * cols + c))
+  })
+
+  return neighbors
+}
+
+/**
+ * Check that the tiles on a ring come in the same order round it as on
+ * the goal, wherever the empty space is
+ */
+const isSameRingOrder = (board: number[][], goal: number[][]): boolean => {
+  const neighbors = getOpenNeighbors(goal)
+  const start = getOpenCells(goal)[0]
+  const ring = [start]
+  for (let previous = -1, cell = start; ring.length < neighbors.size; ) {
+    const next = neighbors.get(cell)!.find(candidate => candidate !== previous)!
+    previous = cell
+    cell = next
+    ring.push(cell)
+  }
+
+  const boardTiles = board.flat()
+  const goalTiles = goal.flat()
+  const boardOrder = ring.map(cell => boardTiles[cell]).filter(value => value !== 0)
+  const goalOrder = ring.map(cell => goalTiles[cell]).filter(value => value !== 0)
+  const offset = boardOrder.indexOf(goalOrder[0])
+
+  return goalOrder.every((value, index) => boardOrder[(offset + index) % boardOrder.length] === value)
+}
+
+/**
+ * Visit every position reachable from the board until the goal turns up
+ * @throws Error if there are too many open cells to search
+ */
+const searchGoal = (board: number[][], goal: number[][]): boolean => {
+  const neighbors = getOpenNeighbors(goal)
+  if (neighbors.size > EXHAUSTIVE_MAX_CELLS) {
+    throw new Error(`Boards with narrow passages may have at most ${EXHAUSTIVE_MAX_CELLS} open cells`)
+  }
+
+  const target = goal.flat().join(',')
+  const start = board.flat()
+  const seen = new Set<string>([start.join(',')])
+  const queue = [start]
+
+  while (queue.length > 0) {
+    const tiles = queue.pop()!
+    if (tiles.join(',') === target) return true
+
+    const blank = tiles.indexOf(0)
+    neighbors.get(blank)!.forEach(cell => {
+      const next = [...tiles]
+      next[blank] = next[cell]
+      next[cell] = 0
+      const key = next.join(',')
+      if (!seen.has(key)) {
+        seen.add(key)
+        queue.push(next)
+      }
+    })
+  }
+
+  return false
+}
+
+/**
+ * Optimal sliding puzzle solver using IDA* with Manhattan distance plus
+ * linear conflict. Boards too hard to finish within the node budget yield
+ * the move sequence that got closest to the goal instead. Blocked cells
+ * (OBSTACLE) are walls the empty space never enters.
+ */
+export class PuzzleSolver {
+  private readonly maxNodes: number
+  private readonly progressInterval: number
+  private readonly onProgress: ((progress: SolverProgress) => void) | null
+  private bound: number = 0
+  private rows: number = 0
+  private cols: number = 0
+  private tiles: number[] = []
+  private blank: number = 0
+  private goalRow: number[] = []
+  private goalCol: number[] = []
+  private neighbors: number[][] = []
+  private rowConflicts: number[] = []
+  private colConflicts: number[] = []
+  private manhattan: number = 0
+  private conflicts: number = 0
+  private path: number[] = []
+  private bestPath: number[] = []
+  private bestHeuristic: number = Infinity
+  private nodesExpanded: number = 0
+  private aborted: boolean = false
+
+  /**
+   * Create a new solver
+   * @param options Limits for the search
+   */
+  constructor(options: SolverOptions = {}) {
+    this.maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES
+    this.progressInterval = options.progressInterval ?? DEFAULT_PROGRESS_INTERVAL
+    this.onProgress = options.onProgress ?? null
+  }
+
+  /**
+   * Find a shortest move sequence from board to goal
+   * @param board Board as returned by PuzzleModel.getBoard()
+   * @param goal Target board, defaults to the standard solved layout
+   */
+  solve(board: number[][], goal?: number[][]): SolverResult {
+    const target = goal ?? createSolvedBoard(board.length, board[0]?.length)
+    this.load(board, target)
+
+    if (!isSolvable(board, target)) {
+      return this.createResult([], false, false, Infinity)
+    }
+
+    let bound = this.heuristic()
+    for (;;) {
+      this.bound = bound
+      this.reportProgress()
+      const result = this.search(0, bound, -1)
+
+      if (result === FOUND) {
+        return this.createResult(this.path, true, true, bound)
+      }
+      if (this.aborted || result === Infinity) {
+        // Out of budget: fall back to the path that got closest to the goal
+        return this.createResult(this.bestPath, this.bestHeuristic === 0, false, bound)
+      }
+
+      bound = result
+    }
+  }
+
+  /**
+   * Estimate the number of moves needed to solve a board. The estimate never
+   * exceeds the true distance.
+   */
+  estimate(board: number[][], goal?: number[][]): number {
+    this.load(board, goal ?? createSolvedBoard(board.length, board[0]?.length))
+    return this.heuristic()
+  }
+
+  /**
+   * Depth-first search bounded by f = g + h
+   * @returns FOUND, or the smallest f that exceeded the bound
+   */
+  private search(depth: number, bound: number, previousBlank: number): number {
+    const h = this.heuristic()
+    const f = depth + h
+
+    if (f > bound) return f
+    if (h === 0) return FOUND
+
+    if (h < this.bestHeuristic) {
+      this.bestHeuristic = h
+      this.bestPath = [...this.path]
+    }
+
+    if (++this.nodesExpanded > this.maxNodes) {
+      this.aborted = true
+      return Infinity
+    }
+    if (this.nodesExpanded % this.progressInterval === 0) {
+      this.reportProgress()
+    }
+
+    let minimum = Infinity
+    const blank = this.blank
+
+    for (const cell of this.neighbors[blank]) {
+      // Never slide straight back into the previous position
+      if (cell === previousBlank) continue
+
+      this.slide(cell)
+      this.path.push(cell)
+
+      const result = this.search(depth + 1, bound, blank)
+      if (result === FOUND) return FOUND
+
+      this.path.pop()
+      this.slide(blank)
+
+      if (this.aborted) return Infinity
+      if (result < minimum) minimum = result
+    }
+
+    return minimum
+  }
+
+  /**
+   * Slide the tile at a cell adjacent to the empty space into it, keeping
+   * the heuristic components up to date
+   */
+  private slide(cell: number): void {
+    const from = cell
+    const to = this.blank
+    const tile = this.tiles[from]
+    const goalRow = this.goalRow[tile]
+    const goalCol = this.goalCol[tile]
+    const fromRow = Math.floor(from / this.cols)
+    const fromCol = from % this.cols
+    const toRow = Math.floor(to / this.cols)
+    const toCol = to % this.cols
+
+    this.manhattan +=
+      Math.abs(toRow - goalRow) + Math.abs(toCol - goalCol) -
+      Math.abs(fromRow - goalRow) - Math.abs(fromCol - goalCol)
+
+    this.tiles[to] = tile
+    this.tiles[from] = 0
+    this.blank = from
+
+    // A vertical slide changes the contents of two rows, a horizontal one two columns
+    if (fromCol === toCol) {
+      this.updateRowConflicts(fromRow)
+      this.updateRowConflicts(toRow)
+    } else {
+      this.updateColConflicts(fromCol)
+      this.updateColConflicts(toCol)
+    }
+  }
+
+  /**
+   * Notify the progress listener, if any
+   */
+  private reportProgress(): void {
+    this.onProgress?.({
+      nodesExpanded: this.nodesExpanded,
+      bound: this.bound
+    })
+  }
+
+  /**
+   * Current heuristic value: Manhattan distance plus two moves per linear conflict
+   */
+  private heuristic(): number {
+    return this.manhattan + 2 * this.conflicts
+  }
+
+  /**
+   * Recount the linear conflicts in a row
+   */
+  private updateRowConflicts(row: number): void {
+    const targets: number[] = []
+    for (let col = 0; col < this.cols; col++) {
+      const tile = this.tiles[row * this.cols + col]
+      if (tile > 0 && this.goalRow[tile] === row) {
+        targets.push(this.goalCol[tile])
+      }
+    }
+
+    const count = targets.length - this.longestIncreasing(targets)
+    this.conflicts += count - this.rowConflicts[row]
+    this.rowConflicts[row] = count
+  }
+
+  /**
+   * Recount the linear conflicts in a column
+   */
+  private updateColConflicts(col: number): void {
+    const targets: number[] = []
+    for (let row = 0; row < this.rows; row++) {
+      const tile = this.tiles[row * this.cols + col]
+      if (tile > 0 && this.goalCol[tile] === col) {
+        targets.push(this.goalRow[tile])
+      }
+    }
+
+    const count = targets.length - this.longestIncreasing(targets)
+    this.conflicts += count - this.colConflicts[col]
+    this.colConflicts[col] = count
+  }
+
+  /**
+   * Length of the longest strictly increasing subsequence. The tiles outside
+   * it are the fewest that must leave the line to resolve every conflict.
+   */
+  private longestIncreasing(values: number[]): number {
+    const lengths: number[] = []
+    let longest = 0
+
+    for (let i = 0; i < values.length; i++) {
+      lengths[i] = 1
+      for (let j = 0; j < i; j++) {
+        if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+          lengths[i] = lengths[j] + 1
+        }
+      }
+      longest = Math.max(longest, lengths[i])
+    }
+
+    return longest
+  }
+
+  /**
+   * Reset the search state for a new board and goal
+   */
+  private load(board: number[][], goal: number[][]): void {
+    this.validate(board, goal)
+
+    this.rows = board.length
+    this.cols = board[0].length
+    this.tiles = board.flat()
+    this.blank = this.tiles.indexOf(0)
+    this.path = []
+    this.bestPath = []
+    this.bestHeuristic = Infinity
+    this.nodesExpanded = 0
+    this.aborted = false
+
+    // Goal coordinates for every tile value
+    this.goalRow = []
+    this.goalCol = []
+    goal.forEach((rowValues, row) => {
+      rowValues.forEach((value, col) => {
+        if (value === OBSTACLE) return
+        this.goalRow[value] = row
+        this.goalCol[value] = col
+      })
+    })
+
+    // Precompute the open cells adjacent to every cell
+    this.neighbors = []
+    for (let cell = 0; cell < this.tiles.length; cell++) {
+      const row = Math.floor(cell / this.cols)
+      const col = cell % this.cols
+      const adjacent: number[] = []
+      if (row > 0) adjacent.push(cell - this.cols)
+      if (row < this.rows - 1) adjacent.push(cell + this.cols)
+      if (col > 0) adjacent.push(cell - 1)
+      if (col < this.cols - 1) adjacent.push(cell + 1)
+      this.neighbors.push(adjacent.filter(other => this.tiles[other] !== OBSTACLE))
+    }
+
+    this.manhattan = 0
+    this.tiles.forEach((tile, cell) => {
+      if (tile <= 0) return
+      this.manhattan +=
+        Math.abs(Math.floor(cell / this.cols) - this.goalRow[tile]) +
+        Math.abs((cell % this.cols) - this.goalCol[tile])
+    })
+
+    this.conflicts = 0
+    this.rowConflicts = new Array(this.rows).fill(0)
+    this.colConflicts = new Array(this.cols).fill(0)
+    for (let row = 0; row < this.rows; row++) this.updateRowConflicts(row)
+    for (let col = 0; col < this.cols; col++) this.updateColConflicts(col)
+  }
+
+  /**
+   * Ensure the board and goal have the same shape, hold the same tiles and
+   * block the same cells
+   */
+  private validate(board: number[][], goal: number[][]): void {
+    const cols = board[0]?.length ?? 0
+    if (board.length < 2 || cols < 2 || board.some(row => row.length !== cols)) {
+      throw new Error('Solver requires a rectangular board of at least 2x2')
+    }
+    if (goal.length !== board.length || goal.some(row => row.length !== cols)) {
+      throw new Error('Solver goal must have the same shape as the board')
+    }
+
+    const expected = [...goal.flat()].sort((a, b) => a - b)
+    const actual = [...board.flat()].sort((a, b) => a - b)
+    if (expected.some((value, index) => value !== actual[index]) || !expected.includes(0)) {
+      throw new Error('Solver board and goal must contain the same tiles and one empty space')
+    }
+
+    const goalCells = goal.flat()
+    if (board.flat().some((value, index) => (value === OBSTACLE) !== (goalCells[index] === OBSTACLE))) {
+      throw new Error('Solver board and goal must have blocked cells in the same places')
+    }
+  }
+
+  /**
+   * Build a result object from a list of moved cells
+   */
+  private createResult(cells: number[], solved: boolean, optimal: boolean, bound: number): SolverResult {
+    return {
+      moves: cells.map(cell => ({
+        row: Math.floor(cell / this.cols),
+        col: cell % this.cols
+      })),
+      solved,
+      optimal,
+      nodesExpanded: this.nodesExpanded,
+      bound
+    }
+  }
+}
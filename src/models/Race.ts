@@ -0,0 +1,67 @@
+import { Position, PuzzleModel } from './PuzzleModel'
+import { RotationMove } from './LoopoverModel'
+import { GamePuzzle, MoveCounters, MoveTally } from './Puzzle'
+
+/**
+ * One step of a solution sent with a solve claim: the cell clicked on a
+ * sliding puzzle, or a loopover rotation
+ */
+export type SolutionStep = Position | RotationMove
+
+/**
+ * Which player won a race
+ */
+export type RaceWinner = 'host' | 'guest'
+
+/**
+ * The host's decision on a race
+ */
+export interface RaceResult {
+  winner: RaceWinner
+  /** Name of the winning player */
+  playerName: string
+  moves: number
+  timeSeconds: number
+}
+
+/**
+ * Get the moves that took a puzzle from its starting board to where it is
+ * now, leaving out anything undone
+ */
+export const getSolution = (model: GamePuzzle): SolutionStep[] => {
+  if (model instanceof PuzzleModel) {
+    return model.getHistory().map(move => move.tile)
+  }
+
+  return model.getHistory()
+}
+
+/**
+ * Check a solve claim by replaying its moves. The model is left at the
+ * position the moves reach.
+ * @param model Puzzle with the race's rules and goal, at the starting board
+ * @returns true if every move is legal and the last one solves the puzzle
+ */
+export const verifySolution = (model: GamePuzzle, solution: SolutionStep[]): boolean => {
+  for (const step of solution) {
+    const applied = model instanceof PuzzleModel ?
+      'row' in step && model.moveTile(step.row, step.col) :
+      'axis' in step && model.rotate(step.axis, step.index, step.offset) !== null
+
+    if (!applied) return false
+  }
+
+  return model.isSolved()
+}
+
+/**
+ * Check that a solve claim's counters add up to its solution: taking back
+ * the undos and putting the redos in again must leave the replayed moves
+ * @param claimed Counters sent with the claim, undos and redos included
+ * @param replayed Counters of the model that replayed the solution
+ */
+export const isTallyOfSolution = (claimed: MoveCounters, replayed: MoveCounters): boolean => {
+  const net = (tally: MoveTally) => tally.moves - tally.undos + tally.redos
+
+  return net(claimed) === replayed.moves && net(claimed.steps) === replayed.steps.moves
+}
@@ -0,0 +1,281 @@
+import { BoardSize } from './PuzzleModel'
+import { OBSTACLE, PuzzleSolver, createSolvedBoard, isSolvable } from './PuzzleSolver'
+import { RandomSource, createSeededRandom } from '../utils/random'
+
+/**
+ * How hard a generated board should be
+ * - easy, medium, hard: boards within a distance band for the board size
+ * - random: uniformly random among all solvable boards
+ */
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'random'
+
+/**
+ * Inclusive range of distances from the solved board
+ */
+export interface DistanceBand {
+  min: number
+  max: number
+}
+
+/**
+ * Band for each difficulty, as fractions of the typical distance of a random board
+ */
+const DIFFICULTY_FRACTIONS: Record<Exclude<Difficulty, 'random'>, [number, number]> = {
+  easy: [0.45, 0.65],
+  medium: [0.7, 0.9],
+  hard: [0.95, 1.5]
+}
+
+/**
+ * Boards up to this many cells are measured by their exact optimal distance.
+ * Larger boards use the solver's admissible estimate, which is cheap to compute.
+ */
+export const EXACT_DISTANCE_MAX_CELLS = 9
+
+// Give up looking for a board inside the band after this many candidates
+const MAX_ATTEMPTS = 200
+
+// Number of random boards sampled to find the typical distance for a size
+const REFERENCE_SAMPLES = 24
+
+// Fixed seed for sampling, so bands are the same on every device
+const REFERENCE_SEED = 0x5EED
+
+// Length of the walk that stands in for a random board, per cell
+const LONG_WALK_MOVES_PER_CELL = 20
+
+// Typical distance per goal board, computed once
+const referenceDistances = new Map<string, number>()
+
+/**
+ * Generates scrambled boards, either uniformly at random or at a target
+ * distance from solved. All randomness comes from the given source, so a
+ * seeded source always generates the same boards. Every method takes an
+ * optional goal board and defaults to the standard solved layout.
+ *
+ * Goals with blocked cells are only ever scrambled by walking the empty
+ * space around, because the walls can make boards with the right parity
+ * unreachable. Every board generated for them can therefore be solved.
+ */
+export class ScrambleGenerator {
+  private readonly random: RandomSource
+  private readonly solver: PuzzleSolver = new PuzzleSolver()
+
+  /**
+   * Create a new generator
+   * @param random Random source, e.g. from createSeededRandom
+   */
+  constructor(random: RandomSource = Math.random) {
+    this.random = random
+  }
+
+  /**
+   * Generate a board for a difficulty
+   */
+  generate(size: BoardSize, difficulty: Difficulty, goal: number[][] = createSolvedBoard(size.rows, size.cols)): number[][] {
+    if (difficulty === 'random') {
+      return this.randomSolvable(size, goal)
+    }
+
+    return this.withinBand(size, getDifficultyBand(size, difficulty, goal), goal)
+  }
+
+  /**
+   * Generate a board uniformly at random among all solvable, unsolved boards.
+   * Goals with blocked cells get a long random walk instead.
+   */
+  randomSolvable(size: BoardSize, goal: number[][] = createSolvedBoard(size.rows, size.cols)): number[][] {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const board = randomBoard(size, this.random, goal)
+      if (measureDistance(board, this.solver, goal) > 0) return board
+    }
+
+    return this.oneMoveFromGoal(goal)
+  }
+
+  /**
+   * Generate a board whose distance from solved lies within a band.
+   * If no candidate lands in the band, the closest one found is returned.
+   */
+  withinBand(size: BoardSize, band: DistanceBand, goal: number[][] = createSolvedBoard(size.rows, size.cols)): number[][] {
+    const reference = getReferenceDistance(size, goal)
+    let best: number[][] | null = null
+    let bestError = Infinity
+    let walkLength = Math.max(1, band.min)
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      // Bands at or above the typical distance are easiest to hit by sampling
+      // random boards; closer bands are reached with random walks from solved
+      const board = band.min >= reference ?
+        randomBoard(size, this.random, goal) :
+        randomWalk(goal, walkLength, this.random)
+      const distance = measureDistance(board, this.solver, goal)
+
+      if (distance >= band.min && distance <= band.max) {
+        return board
+      }
+
+      const error = distance < band.min ? band.min - distance : distance - band.max
+      if (error < bestError) {
+        best = board
+        bestError = error
+      }
+
+      // Walks shorten on the way back to solved, so adjust the length towards the band
+      walkLength = distance < band.min ?
+        Math.ceil(walkLength * 1.25) + 1 :
+        Math.max(1, Math.floor(walkLength * 0.8))
+    }
+
+    // Walls can leave so little room that every walk ends back at the goal
+    return isGoal(best!, goal) ? this.oneMoveFromGoal(goal) : best!
+  }
+
+  /**
+   * Make a single move away from the goal. With only two open cells every
+   * walk of even length comes back to the goal, but one move never does.
+   * @throws Error if walls leave no tile free to move
+   */
+  private oneMoveFromGoal(goal: number[][]): number[][] {
+    const board = randomWalk(goal, 1, this.random)
+    if (!isGoal(board, goal)) return board
+
+    throw new Error('The goal leaves no tile free to move, so it cannot be scrambled')
+  }
+}
+
+/**
+ * Get the distance band a difficulty stands for on a board size
+ */
+export const getDifficultyBand = (
+  size: BoardSize,
+  difficulty: Exclude<Difficulty, 'random'>,
+  goal: number[][] = createSolvedBoard(size.rows, size.cols)
+): DistanceBand => {
+  const reference = getReferenceDistance(size, goal)
+  const [low, high] = DIFFICULTY_FRACTIONS[difficulty]
+  const min = Math.max(1, Math.round(reference * low))
+
+  return {
+    min,
+    max: Math.max(min, Math.round(reference * high))
+  }
+}
+
+/**
+ * Measure how far a board is from the goal: the exact optimal distance on
+ * small boards, the solver's lower-bound estimate on larger ones
+ */
+export const measureDistance = (board: number[][], solver: PuzzleSolver = new PuzzleSolver(), goal?: number[][]): number => {
+  const cells = board.length * board[0].length
+
+  if (cells <= EXACT_DISTANCE_MAX_CELLS) {
+    return solver.solve(board, goal).moves.length
+  }
+
+  return solver.estimate(board, goal)
+}
+
+/**
+ * Typical distance of a uniformly random board of a size, in the same
+ * measure as measureDistance
+ */
+const getReferenceDistance = (size: BoardSize, goal: number[][]): number => {
+  const key = `${size.rows}x${size.cols}:${goal.flat().join(',')}`
+  const cached = referenceDistances.get(key)
+  if (cached !== undefined) return cached
+
+  const random = createSeededRandom(REFERENCE_SEED)
+  const solver = new PuzzleSolver()
+  let total = 0
+  for (let i = 0; i < REFERENCE_SAMPLES; i++) {
+    total += measureDistance(randomBoard(size, random, goal), solver, goal)
+  }
+
+  const reference = total / REFERENCE_SAMPLES
+  referenceDistances.set(key, reference)
+  return reference
+}
+
+/**
+ * Check whether a board is the goal itself
+ */
+const isGoal = (board: number[][], goal: number[][]): boolean => {
+  return board.every((row, r) => row.every((value, c) => value === goal[r][c]))
+}
+
+/**
+ * A random board for sampling: uniform when every cell is open, otherwise a
+ * walk long enough to mix the tiles thoroughly
+ */
+const randomBoard = (size: BoardSize, random: RandomSource, goal: number[][]): number[][] => {
+  if (!goal.some(row => row.includes(OBSTACLE))) {
+    return randomSolvableBoard(size, random, goal)
+  }
+
+  return randomWalk(goal, size.rows * size.cols * LONG_WALK_MOVES_PER_CELL, random)
+}
+
+/**
+ * Make random moves from the goal, never undoing the previous move unless
+ * there is nowhere else to go. Blocked cells are never entered.
+ */
+const randomWalk = (goal: number[][], length: number, random: RandomSource): number[][] => {
+  const board = goal.map(row => [...row])
+  const size = { rows: board.length, cols: board[0].length }
+  const blank = board.flat().indexOf(0)
+  let empty = { row: Math.floor(blank / size.cols), col: blank % size.cols }
+  let previous = { row: -1, col: -1 }
+
+  for (let i = 0; i < length; i++) {
+    const open = [[-1, 0], [1, 0], [0, -1], [0, 1]]
+      .map(([dRow, dCol]) => ({ row: empty.row + dRow, col: empty.col + dCol }))
+      .filter(({ row, col }) =>
+        row >= 0 && row < size.rows && col >= 0 && col < size.cols &&
+        board[row][col] !== OBSTACLE)
+
+    // Walls can leave a dead end where the only way out is back
+    const forward = open.filter(({ row, col }) => !(row === previous.row && col === previous.col))
+    const moves = forward.length > 0 ? forward : open
+    if (moves.length === 0) break
+
+    const next = moves[Math.floor(random() * moves.length)]
+    board[empty.row][empty.col] = board[next.row][next.col]
+    board[next.row][next.col] = 0
+    previous = empty
+    empty = next
+  }
+
+  return board
+}
+
+/**
+ * Shuffle all tiles uniformly, then swap two tiles if needed to fix the parity.
+ * Each solvable board is produced by exactly two permutations, so the result
+ * is uniform among solvable boards.
+ */
+const randomSolvableBoard = (size: BoardSize, random: RandomSource, goal: number[][]): number[][] => {
+  const tiles = createSolvedBoard(size.rows, size.cols).flat()
+
+  // Fisher-Yates shuffle
+  for (let i = tiles.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[tiles[i], tiles[j]] = [tiles[j], tiles[i]]
+  }
+
+  const board: number[][] = []
+  for (let row = 0; row < size.rows; row++) {
+    board.push(tiles.slice(row * size.cols, (row + 1) * size.cols))
+  }
+
+  if (!isSolvable(board, goal)) {
+    // Swapping two numbered tiles flips the permutation parity
+    const cells = board.flat().map((value, index) => ({ value, index })).filter(cell => cell.value !== 0)
+    const [first, second] = cells
+    const cols = size.cols
+    board[Math.floor(first.index / cols)][first.index % cols] = second.value
+    board[Math.floor(second.index / cols)][second.index % cols] = first.value
+  }
+
+  return board
+}
@@ -0,0 +1,138 @@
+import { Position, PuzzleModel } from './PuzzleModel'
+import { RotationAxis } from './LoopoverModel'
+import { GamePuzzle } from './Puzzle'
+
+/**
+ * A change to a board both players share
+ * - move: a sliding tile clicked, with the empty space as the player saw it
+ * - rotation: a loopover row or column rotated
+ * - undo, redo: a step back or forward through the shared history
+ */
+export type SharedAction =
+  | { kind: 'move'; row: number; col: number; empty: Position }
+  | { kind: 'rotation'; axis: RotationAxis; index: number; offset: number }
+  | { kind: 'undo' }
+  | { kind: 'redo' }
+
+/**
+ * How often the guest sends its board hash while nothing moves
+ */
+export const HASH_CHECK_SECONDS = 5
+
+// Board hashes the host keeps, for the guest's hashes that arrive late
+const HASH_HISTORY = 64
+
+/**
+ * Numbers the actions on a shared board so both players apply them in the
+ * same order. The host numbers every action it accepts and remembers the
+ * board's hash after each one; the guest applies them by number, holding
+ * back any that arrive early.
+ */
+export class MoveSequencer {
+  private sequence = 0
+  private waiting = new Map<number, SharedAction>()
+  private hashes = new Map<number, number>()
+
+  /**
+   * Get the number of the last action applied
+   */
+  getSequence(): number {
+    return this.sequence
+  }
+
+  /**
+   * Number the next action accepted by the host
+   * @param hash Hash of the host's board after the action
+   */
+  next(hash: number): number {
+    this.sequence++
+    this.hashes.set(this.sequence, hash)
+    this.hashes.delete(this.sequence - HASH_HISTORY)
+    return this.sequence
+  }
+
+  /**
+   * Get the hash of the host's board after an action
+   * @returns The hash, or undefined if the action is too old or not made yet
+   */
+  getHash(sequence: number): number | undefined {
+    return this.hashes.get(sequence)
+  }
+
+  /**
+   * Take an action numbered by the host
+   * @returns The actions now due, in order; empty while an earlier one is
+   *   missing, or if the action was already applied
+   */
+  receive(sequence: number, action: SharedAction): SharedAction[] {
+    if (sequence <= this.sequence) return []
+
+    this.waiting.set(sequence, action)
+    return this.takeDue()
+  }
+
+  /**
+   * Catch up with a snapshot of the host's board taken after an action.
+   * Actions up to it are dropped.
+   * @returns The actions after it that are now due, in order
+   */
+  skipTo(sequence: number): SharedAction[] {
+    this.waiting.forEach((_, waiting) => {
+      if (waiting <= sequence) this.waiting.delete(waiting)
+    })
+    this.sequence = sequence
+
+    return this.takeDue()
+  }
+
+  /**
+   * Start numbering again for a new board
+   * @param hash Hash of the new board, kept by the host
+   */
+  reset(hash?: number): void {
+    this.sequence = 0
+    this.waiting.clear()
+    this.hashes.clear()
+    if (hash !== undefined) this.hashes.set(0, hash)
+  }
+
+  /**
+   * Take the held back actions that follow the last one applied
+   */
+  private takeDue(): SharedAction[] {
+    const due: SharedAction[] = []
+    for (let next = this.waiting.get(this.sequence + 1); next; next = this.waiting.get(this.sequence + 1)) {
+      this.waiting.delete(++this.sequence)
+      due.push(next)
+    }
+
+    return due
+  }
+}
+
+/**
+ * Check whether an action asked for by the guest no longer fits the board,
+ * because other actions were applied after the guest last saw it
+ * @param model The host's board
+ * @param seenSequence Number of the last action the guest had applied
+ * @param sequence Number of the last action the host applied
+ */
+export const isStaleAction = (model: GamePuzzle, action: SharedAction, seenSequence: number, sequence: number): boolean => {
+  if (seenSequence > sequence) return true
+
+  switch (action.kind) {
+    case 'move': {
+      // A slide is still meant if the empty space has not moved since
+      if (!(model instanceof PuzzleModel)) return true
+      const empty = model.getEmptyPosition()
+      return empty.row !== action.empty.row || empty.col !== action.empty.col || !model.canMoveTile(action.row, action.col)
+    }
+    case 'rotation':
+      // Rotations always apply, and the order keeps both boards the same
+      return false
+    case 'undo':
+    case 'redo':
+      // Which move is taken back depends on everything before it
+      return seenSequence !== sequence
+  }
+}
@@ -0,0 +1,281 @@
+import { Position } from './PuzzleModel'
+import { SolverMove, createSolvedBoard } from './PuzzleSolver'
+
+/**
+ * One step of the human method, with the moves that complete it
+ */
+export interface TutorStep {
+  /** Part of the board being solved, e.g. "Row 1" or "Last 2×3 block" */
+  stage: string
+  /** What to do and why, in words */
+  description: string
+  /** Tiles placed by this step */
+  tiles: number[]
+  /** Goal cell of each tile, in the same order */
+  targets: Position[]
+  /** Moves that complete the step, each a tile next to the empty space */
+  moves: SolverMove[]
+  /** Number of this step, counting from 0 */
+  index: number
+  /** Number of steps in the whole method for this board size */
+  total: number
+}
+
+/**
+ * A step of the plan before it is worked out for a board
+ * - tile: a single tile goes to its place
+ * - pair: the last two tiles of a row or column go in together
+ * - block: the last few tiles are cycled into place
+ */
+interface Placement {
+  kind: 'tile' | 'pair' | 'block'
+  stage: string
+  tiles: number[]
+  targets: Position[]
+}
+
+// Largest block solved as a whole; 2×3 has 360 positions to search
+const LAST_BLOCK_CELLS = 6
+
+// Row and column steps from a cell to its neighbours
+const NEIGHBOR_STEPS = [[-1, 0], [1, 0], [0, -1], [0, 1]]
+
+/**
+ * Work out the next step of the standard human method: solve the top row,
+ * then the left column, and repeat on the smaller puzzle that is left until
+ * only a 2×3 block remains, which is cycled into place. The last two tiles
+ * of each row and column are placed as a pair.
+ * @param board Board to teach from, solved to the standard goal
+ * @returns The first step not yet done, or null if the board is solved
+ */
+export const getTutorStep = (board: number[][]): TutorStep | null => {
+  const rows = board.length
+  const cols = board[0].length
+  const plan = planReduction(rows, cols)
+  const goal = createSolvedBoard(rows, cols)
+  const fixed = board.map(rowValues => rowValues.map(() => false))
+
+  for (let index = 0; index < plan.length; index++) {
+    const placement = plan[index]
+    const done = placement.targets.every(({ row, col }, i) => board[row][col] === placement.tiles[i])
+
+    if (!done) {
+      return {
+        stage: placement.stage,
+        description: describePlacement(placement),
+        tiles: [...placement.tiles],
+        targets: placement.targets.map(target => ({ ...target })),
+        moves: placement.kind === 'block' ?
+          searchBlock(board, goal, placement) :
+          findTileMoves(board, fixed, placement.tiles, placement.targets),
+        index,
+        total: plan.length
+      }
+    }
+
+    // Tiles already placed must stay put for the rest of the method
+    placement.targets.forEach(({ row, col }) => { fixed[row][col] = true })
+  }
+
+  return null
+}
+
+/**
+ * List the placements of the method for a board size
+ */
+const planReduction = (rows: number, cols: number): Placement[] => {
+  const goal = createSolvedBoard(rows, cols)
+  const plan: Placement[] = []
+  let top = 0
+  let left = 0
+
+  // Take off whichever side is longer, so the rest stays close to square
+  while ((rows - top) * (cols - left) > LAST_BLOCK_CELLS) {
+    if (rows - top >= cols - left) {
+      const cells = range(left, cols).map(col => ({ row: top, col }))
+      plan.push(...planLine(`Row ${top + 1}`, cells, goal))
+      top++
+    } else {
+      const cells = range(top, rows).map(row => ({ row, col: left }))
+      plan.push(...planLine(`Column ${left + 1}`, cells, goal))
+      left++
+    }
+  }
+
+  const blockCells = range(top, rows).flatMap(row => range(left, cols).map(col => ({ row, col })))
+    .filter(({ row, col }) => goal[row][col] !== 0)
+  plan.push({
+    kind: 'block',
+    stage: `Last ${rows - top}×${cols - left} block`,
+    tiles: blockCells.map(({ row, col }) => goal[row][col]),
+    targets: blockCells
+  })
+
+  return plan
+}
+
+/**
+ * Plan a row or column: one tile at a time, then the last two as a pair
+ */
+const planLine = (stage: string, cells: Position[], goal: number[][]): Placement[] => {
+  const single = cells.slice(0, -2).map((cell): Placement => ({
+    kind: 'tile',
+    stage,
+    tiles: [goal[cell.row][cell.col]],
+    targets: [cell]
+  }))
+  const last = cells.slice(-2)
+
+  return [...single, {
+    kind: 'pair',
+    stage,
+    tiles: last.map(({ row, col }) => goal[row][col]),
+    targets: last
+  }]
+}
+
+/**
+ * Explain a placement to the player
+ */
+const describePlacement = (placement: Placement): string => {
+  const { tiles, targets } = placement
+
+  switch (placement.kind) {
+    case 'tile':
+      return `Bring tile ${tiles[0]} to row ${targets[0].row + 1}, column ${targets[0].col + 1} without disturbing the tiles already placed.`
+    case 'pair':
+      return `Place tiles ${tiles[0]} and ${tiles[1]} together: line them up next to their places, then slide them in as a pair. Placed one at a time, the second would push the first back out.`
+    case 'block':
+      return 'Only a small block is left: cycle its tiles around the empty space until every one is home.'
+  }
+}
+
+/**
+ * Find the shortest way to bring one or two tiles to their targets, moving
+ * any other tile that is not fixed. Only the empty space and the tiles
+ * being placed are tracked, so the search stays small.
+ * @param fixed Cells that must not change, by row and column
+ * @returns Moves to make, each a tile next to the empty space; empty if
+ *   the tiles cannot reach their targets
+ */
+export const findTileMoves = (board: number[][], fixed: boolean[][], tiles: number[], targetCells: Position[]): SolverMove[] => {
+  const rows = board.length
+  const cols = board[0].length
+  const cellCount = rows * cols
+  const pieceCount = tiles.length
+  const cells = board.flat()
+  const targets = targetCells.map(({ row, col }) => row * cols + col)
+
+  // A state is the empty cell followed by the cell of each tile, in base cellCount
+  const encode = (tracked: Int32Array) => tracked.reduce((state, cell) => state * cellCount + cell, 0)
+  const decode = (state: number, tracked: Int32Array) => {
+    for (let i = pieceCount; i >= 0; i--) {
+      tracked[i] = state % cellCount
+      state = (state - tracked[i]) / cellCount
+    }
+  }
+
+  const tracked = Int32Array.from([cells.indexOf(0), ...tiles.map(tile => cells.indexOf(tile))])
+  const start = encode(tracked)
+  const stateCount = cellCount ** (pieceCount + 1)
+  const previous = new Int32Array(stateCount).fill(-1)
+  const queue = new Int32Array(stateCount)
+  let tail = 0
+  previous[start] = start
+  queue[tail++] = start
+
+  for (let head = 0; head < tail; head++) {
+    const state = queue[head]
+    decode(state, tracked)
+
+    if (targets.every((target, i) => tracked[i + 1] === target)) {
+      // Each state's empty cell is the tile clicked to reach it
+      const moves: SolverMove[] = []
+      for (let current = state; current !== start; current = previous[current]) {
+        decode(current, tracked)
+        moves.unshift({ row: Math.floor(tracked[0] / cols), col: tracked[0] % cols })
+      }
+      return moves
+    }
+
+    const empty = tracked[0]
+    const emptyRow = Math.floor(empty / cols)
+    const emptyCol = empty % cols
+    for (const [rowStep, colStep] of NEIGHBOR_STEPS) {
+      const row = emptyRow + rowStep
+      const col = emptyCol + colStep
+      if (row < 0 || row >= rows || col < 0 || col >= cols || fixed[row][col]) continue
+
+      // The tile on the clicked cell, tracked or not, slides into the empty space
+      const clicked = row * cols + col
+      let next = clicked
+      for (let i = 1; i <= pieceCount; i++) {
+        next = next * cellCount + (tracked[i] === clicked ? empty : tracked[i])
+      }
+
+      if (previous[next] === -1) {
+        previous[next] = state
+        queue[tail++] = next
+      }
+    }
+  }
+
+  return []
+}
+
+/**
+ * Find the shortest way to solve the last block, searching every position
+ * of its tiles
+ */
+const searchBlock = (board: number[][], goal: number[][], placement: Placement): SolverMove[] => {
+  const cols = board[0].length
+  const top = Math.min(...placement.targets.map(({ row }) => row))
+  const left = Math.min(...placement.targets.map(({ col }) => col))
+  const cells = range(top, board.length).flatMap(row => range(left, cols).map(col => ({ row, col })))
+  const width = cols - left
+
+  const start = cells.map(({ row, col }) => board[row][col])
+  const target = cells.map(({ row, col }) => goal[row][col]).join(',')
+  const previous = new Map<string, { key: string; move: SolverMove } | null>([[start.join(','), null]])
+
+  const queue = [start]
+  for (let head = 0; head < queue.length; head++) {
+    const values = queue[head]
+    const key = values.join(',')
+
+    if (key === target) {
+      const moves: SolverMove[] = []
+      for (let step = previous.get(key); step; step = previous.get(step.key)) {
+        moves.unshift(step.move)
+      }
+      return moves
+    }
+
+    const empty = values.indexOf(0)
+    for (const [rowStep, colStep] of NEIGHBOR_STEPS) {
+      const row = cells[empty].row + rowStep
+      const col = cells[empty].col + colStep
+      if (row < top || row >= board.length || col < left || col >= cols) continue
+
+      const clicked = (row - top) * width + (col - left)
+      const next = [...values]
+      next[empty] = values[clicked]
+      next[clicked] = 0
+
+      const nextKey = next.join(',')
+      if (!previous.has(nextKey)) {
+        previous.set(nextKey, { key, move: { row, col } })
+        queue.push(next)
+      }
+    }
+  }
+
+  return []
+}
+
+/**
+ * Numbers from start up to but not including end
+ */
+const range = (start: number, end: number): number[] => {
+  return Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i)
+}
@@ -0,0 +1,63 @@
+import { BoardSize } from '../models/PuzzleModel';
+import { PuzzleVariant } from '../models/Puzzle';
+import { BlindfoldResult, findBestResult, isBlindfoldResult } from '../models/Blindfold';
+
+/**
+ * Key the results are stored under in local storage
+ */
+const STORAGE_KEY = 'sliding-puzzle-blindfold-results';
+
+/**
+ * Keeps blindfold solves in local storage, apart from normal solves. When
+ * storage is unavailable, results last until the page closes.
+ */
+export class BlindfoldResultsService {
+  private results: BlindfoldResult[];
+
+  /**
+   * Create the service and load the stored results
+   */
+  constructor() {
+    this.results = this.load();
+  }
+
+  /**
+   * Get the fastest blindfold solve for a puzzle family and board size
+   * @returns The best result, or null if there is none yet
+   */
+  public getBest(variant: PuzzleVariant, size: BoardSize): BlindfoldResult | null {
+    return findBestResult(this.results, variant, size);
+  }
+
+  /**
+   * Store a result
+   */
+  public saveResult(result: BlindfoldResult): void {
+    this.results.push({ ...result });
+    this.save();
+  }
+
+  /**
+   * Read the stored results, skipping anything that is not a result
+   */
+  private load(): BlindfoldResult[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored.filter(isBlindfoldResult) : [];
+    } catch (error) {
+      console.warn("Could not read blindfold results:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Write the results back to local storage
+   */
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.results));
+    } catch (error) {
+      console.warn("Could not store blindfold results:", error);
+    }
+  }
+}
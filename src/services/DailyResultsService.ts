@@ -0,0 +1,135 @@
+import { BoardSize } from '../models/PuzzleModel';
+import { DailyResult, countStreak, getDayKey, isDailyResult } from '../models/DailyPuzzle';
+
+/**
+ * Key the results are stored under in local storage
+ */
+const STORAGE_KEY = 'sliding-puzzle-daily-results';
+
+/**
+ * Key the started daily puzzles are stored under in local storage
+ */
+const ATTEMPTS_STORAGE_KEY = 'sliding-puzzle-daily-attempts';
+
+/**
+ * Keeps the player's daily puzzle results in local storage. When storage is
+ * unavailable, e.g. in a private window, results last until the page closes.
+ */
+export class DailyResultsService {
+  private results: DailyResult[];
+  private attempts: Set<string>;
+
+  /**
+   * Create the service and load the stored results
+   */
+  constructor() {
+    this.results = this.load();
+    this.attempts = this.loadAttempts();
+  }
+
+  /**
+   * Check whether a day's puzzle of a board size has been started before
+   */
+  public hasAttempt(day: string, size: BoardSize): boolean {
+    return this.attempts.has(getAttemptKey(day, size));
+  }
+
+  /**
+   * Note that a day's puzzle of a board size was started. Only the first
+   * attempt counts as a daily result; the board is known after that.
+   * @returns true if this is the first attempt
+   */
+  public recordAttempt(day: string, size: BoardSize): boolean {
+    if (this.hasAttempt(day, size)) return false;
+    
+    // Earlier days can no longer be played, so only today's attempts are kept
+    this.attempts = new Set([...this.attempts].filter(key => key.startsWith(`${day}:`)));
+    this.attempts.add(getAttemptKey(day, size));
+    this.saveAttempts();
+    return true;
+  }
+
+  /**
+   * Get the result for a day and board size
+   * @returns The result, or null if that puzzle has not been solved
+   */
+  public getResult(day: string, size: BoardSize): DailyResult | null {
+    return this.results.find(result =>
+      result.day === day && result.rows === size.rows && result.cols === size.cols
+    ) ?? null;
+  }
+
+  /**
+   * Store a result. Only the first solve of a day's puzzle counts.
+   * @returns true if the result was stored
+   */
+  public saveResult(result: DailyResult): boolean {
+    if (this.getResult(result.day, result)) return false;
+    
+    this.results.push({ ...result });
+    this.save();
+    return true;
+  }
+
+  /**
+   * Count the days in a row with a solved daily puzzle of any size
+   */
+  public getStreak(today: string = getDayKey()): number {
+    return countStreak(new Set(this.results.map(result => result.day)), today);
+  }
+
+  /**
+   * Read the stored results, skipping anything that is not a result
+   */
+  private load(): DailyResult[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored.filter(isDailyResult) : [];
+    } catch (error) {
+      console.warn("Could not read daily results:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Write the results back to local storage
+   */
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.results));
+    } catch (error) {
+      console.warn("Could not store daily results:", error);
+    }
+  }
+
+  /**
+   * Read the started puzzles, skipping anything that is not one
+   */
+  private loadAttempts(): Set<string> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(ATTEMPTS_STORAGE_KEY) ?? '[]');
+      return new Set(Array.isArray(stored) ? stored.filter(key => typeof key === 'string') : []);
+    } catch (error) {
+      console.warn("Could not read daily attempts:", error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Write the started puzzles back to local storage
+   */
+  private saveAttempts(): void {
+    try {
+      localStorage.setItem(ATTEMPTS_STORAGE_KEY, JSON.stringify([...this.attempts]));
+    } catch (error) {
+      console.warn("Could not store daily attempts:", error);
+    }
+  }
+}
+
+/**
+ * Key of a day's puzzle of a board size among the started puzzles
+ */
+const getAttemptKey = (day: string, size: BoardSize): string => {
+  return `${day}:${size.rows}x${size.cols}`;
+};
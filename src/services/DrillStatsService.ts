@@ -0,0 +1,101 @@
+import { BoardSize } from '../models/PuzzleModel';
+import { DrillStats, DrillType, createDrillStats, isDrillStats, isDrillType } from '../models/Drill';
+
+/**
+ * Key the statistics are stored under in local storage
+ */
+const STORAGE_KEY = 'sliding-puzzle-drill-stats';
+
+/**
+ * Keeps the player's drill attempts, success rates and times in local
+ * storage, separately for each drill and board size. When storage is
+ * unavailable the statistics last until the page closes.
+ */
+export class DrillStatsService {
+  private stats: Record<string, DrillStats>;
+
+  /**
+   * Create the service and load the stored statistics
+   */
+  constructor() {
+    this.stats = this.load();
+  }
+
+  /**
+   * Get the statistics for a drill on a board size
+   */
+  public getStats(drill: DrillType, size: BoardSize): DrillStats {
+    return { ...(this.stats[this.getKey(drill, size)] ?? createDrillStats()) };
+  }
+
+  /**
+   * Count a drill board being dealt
+   */
+  public recordAttempt(drill: DrillType, size: BoardSize): void {
+    const stats = this.getStats(drill, size);
+    stats.attempts++;
+    this.update(drill, size, stats);
+  }
+
+  /**
+   * Count a drill board being solved
+   * @param timeSeconds Time the solve took
+   */
+  public recordSolve(drill: DrillType, size: BoardSize, timeSeconds: number): DrillStats {
+    const stats = this.getStats(drill, size);
+    stats.solves = Math.min(stats.solves + 1, stats.attempts);
+    stats.totalTimeSeconds += timeSeconds;
+    stats.bestTimeSeconds = stats.bestTimeSeconds === null ?
+      timeSeconds :
+      Math.min(stats.bestTimeSeconds, timeSeconds);
+    this.update(drill, size, stats);
+    return { ...stats };
+  }
+
+  /**
+   * Build the storage key for a drill and board size, e.g. "last-2x2:4x4"
+   */
+  private getKey(drill: DrillType, size: BoardSize): string {
+    return `${drill}:${size.rows}x${size.cols}`;
+  }
+
+  /**
+   * Replace the statistics for a drill and size and store them
+   */
+  private update(drill: DrillType, size: BoardSize, stats: DrillStats): void {
+    this.stats[this.getKey(drill, size)] = stats;
+    this.save();
+  }
+
+  /**
+   * Read the stored statistics, skipping anything that is not a drill record
+   */
+  private load(): Record<string, DrillStats> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+      const stats: Record<string, DrillStats> = {};
+
+      if (stored && typeof stored === 'object') {
+        Object.entries(stored).forEach(([key, value]) => {
+          if (isDrillType(key.split(':')[0]) && isDrillStats(value)) stats[key] = value;
+        });
+      }
+
+      return stats;
+    } catch (error) {
+      console.warn("Could not read drill statistics:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Write the statistics back to local storage
+   */
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.stats));
+    } catch (error) {
+      console.warn("Could not store drill statistics:", error);
+    }
+  }
+}
@@ -0,0 +1,321 @@
+import { BoardSize } from '../models/PuzzleModel';
+import { GameSettings, parseGameSettings } from '../models/GameSettings';
+import { GameSnapshot, MoveCounters, ProgressMetrics, isMoveCounters, isProgressMetrics } from '../models/Puzzle';
+import { OBSTACLE } from '../models/PuzzleSolver';
+import { RaceWinner, SolutionStep } from '../models/Race';
+import { SharedAction } from '../models/SharedBoard';
+import { PuzzleImage, isPuzzleImage } from '../utils/image';
+import { isCount, isRecord } from '../utils/helpers';
+
+/**
+ * Version of the message format. Peers only talk to peers on the same version.
+ */
+export const PROTOCOL_VERSION = 3;
+
+/**
+ * Largest number of rows or columns accepted from a peer, well above the
+ * largest board offered, so a peer cannot make us build a huge board
+ */
+export const MAX_BOARD_DIMENSION = 12;
+
+/**
+ * Longest solution accepted with a solve claim, and longest history
+ * accepted with a snapshot
+ */
+export const MAX_SOLUTION_STEPS = 20000;
+
+/**
+ * Every message peers exchange, told apart by its type
+ */
+export type PeerMessage =
+  | { type: 'presence'; peerId: string; name: string; lastSeen: number }
+  | { type: 'game-request'; from: string; name: string }
+  | { type: 'game-accept'; from: string }
+  | { type: 'game-decline'; from: string }
+  | {
+      type: 'game-start';
+      rows: number;
+      cols: number;
+      board: number[][];
+      settings: GameSettings;
+      seed: number | null;
+      goal: number[][] | null;
+    }
+  | { type: 'action-request'; action: SharedAction; sequence: number }
+  | { type: 'action'; action: SharedAction; sequence: number }
+  | { type: 'action-rejected'; sequence: number }
+  | { type: 'board-hash'; sequence: number; hash: number }
+  | { type: 'snapshot'; snapshot: GameSnapshot; sequence: number; elapsedSeconds: number }
+  | { type: 'game-won'; playerName: string; moves: number; timeSeconds: number; solution: SolutionStep[]; counters: MoveCounters }
+  | { type: 'race-result'; winner: RaceWinner; playerName: string; moves: number; timeSeconds: number }
+  | { type: 'progress'; playerName: string; progress: ProgressMetrics }
+  | { type: 'reset-game' }
+  | { type: 'leave' }
+  | { type: 'puzzle-image'; image: PuzzleImage | null };
+
+/**
+ * Type of a peer message
+ */
+export type PeerMessageType = PeerMessage['type'];
+
+/**
+ * A message as it travels between peers, stamped with the protocol version
+ */
+export type WireMessage = PeerMessage & { version: number };
+
+/**
+ * Why a received message was rejected
+ * - malformed: not an object with a message type
+ * - version: sent by a peer on another protocol version
+ * - unknown-type: a message type this version does not know
+ * - invalid: a known type with missing or out-of-range fields
+ */
+export type ProtocolErrorReason = 'malformed' | 'version' | 'unknown-type' | 'invalid';
+
+/**
+ * Error thrown when a message from a peer cannot be trusted
+ */
+export class ProtocolError extends Error {
+  readonly reason: ProtocolErrorReason;
+
+  constructor(reason: ProtocolErrorReason, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Stamp a message with the protocol version before sending it
+ */
+export const createWireMessage = (message: PeerMessage): WireMessage => {
+  return { ...message, version: PROTOCOL_VERSION };
+};
+
+/**
+ * Check a message received from a peer and strip its version
+ * @param data Data as received from the connection
+ * @param size Size of the board being played, to check cells against; any
+ *   cell up to MAX_BOARD_DIMENSION is accepted before a game has started
+ * @throws ProtocolError if the message is malformed, from another protocol
+ *   version, of an unknown type or has invalid fields
+ */
+export const parseMessage = (data: unknown, size: BoardSize | null = null): PeerMessage => {
+  if (!isRecord(data) || typeof data.type !== 'string') {
+    throw new ProtocolError('malformed', 'Message has no type');
+  }
+  const value = data;
+  if (value.version !== PROTOCOL_VERSION) {
+    throw new ProtocolError('version', `Expected protocol version ${PROTOCOL_VERSION}`);
+  }
+
+  const rows = size?.rows ?? MAX_BOARD_DIMENSION;
+  const cols = size?.cols ?? MAX_BOARD_DIMENSION;
+  const type = value.type as PeerMessageType;
+
+  switch (type) {
+    case 'presence':
+      expect(isText(value.peerId) && isText(value.name) && isCount(value.lastSeen), type);
+      return { type, peerId: value.peerId, name: value.name, lastSeen: value.lastSeen };
+
+    case 'game-request':
+      expect(isText(value.from) && isText(value.name), type);
+      return { type, from: value.from, name: value.name };
+
+    case 'game-accept':
+    case 'game-decline':
+      expect(isText(value.from), type);
+      return { type, from: value.from };
+
+    case 'game-start':
+      return parseGameStart(value);
+
+    case 'action-request':
+    case 'action':
+      expect(isSharedAction(value.action, rows, cols) && isCount(value.sequence), type);
+      return { type, action: value.action, sequence: value.sequence };
+
+    case 'action-rejected':
+      expect(isCount(value.sequence), type);
+      return { type, sequence: value.sequence };
+
+    case 'board-hash':
+      expect(isCount(value.sequence) && isInteger(value.hash), type);
+      return { type, sequence: value.sequence, hash: value.hash };
+
+    case 'snapshot':
+      expect(isSnapshot(value.snapshot, rows, cols) && isCount(value.sequence) && isCount(value.elapsedSeconds), type);
+      return { type, snapshot: value.snapshot, sequence: value.sequence, elapsedSeconds: value.elapsedSeconds };
+
+    case 'reset-game':
+    case 'leave':
+      return { type };
+
+    case 'game-won':
+      expect(isText(value.playerName) && isCount(value.moves) && isCount(value.timeSeconds) &&
+        isSolution(value.solution, rows, cols) && isMoveCounters(value.counters), type);
+      return {
+        type,
+        playerName: value.playerName,
+        moves: value.moves,
+        timeSeconds: value.timeSeconds,
+        solution: value.solution,
+        counters: value.counters
+      };
+
+    case 'race-result':
+      expect((value.winner === 'host' || value.winner === 'guest') && isText(value.playerName) &&
+        isCount(value.moves) && isCount(value.timeSeconds), type);
+      return {
+        type,
+        winner: value.winner,
+        playerName: value.playerName,
+        moves: value.moves,
+        timeSeconds: value.timeSeconds
+      };
+
+    case 'progress':
+      expect(isText(value.playerName) && isProgressMetrics(value.progress), type);
+      return { type, playerName: value.playerName, progress: value.progress };
+
+    case 'puzzle-image':
+      expect(value.image === null || isPuzzleImage(value.image), type);
+      return { type, image: value.image };
+
+    default:
+      throw new ProtocolError('unknown-type', 'Unknown message type');
+  }
+};
+
+/**
+ * Check a game start: a board of the stated size, and a goal of the same
+ * size if one is sent. Whether the board can be solved is left to the model.
+ */
+const parseGameStart = (value: Record<string, unknown>): PeerMessage => {
+  const { rows, cols } = value;
+  expect(isDimension(rows) && isDimension(cols), 'game-start');
+  expect(isBoard(value.board, rows, cols), 'game-start');
+  expect(value.goal === null || value.goal === undefined || isBoard(value.goal, rows, cols), 'game-start');
+  expect(value.seed === null || value.seed === undefined || isInteger(value.seed), 'game-start');
+
+  return {
+    type: 'game-start',
+    rows,
+    cols,
+    board: value.board,
+    settings: parseGameSettings(value.settings),
+    seed: value.seed ?? null,
+    goal: value.goal ?? null
+  };
+};
+
+/**
+ * Throw if a check on a message of some type failed. Declared as a function
+ * so the checks narrow the message's fields after it.
+ */
+function expect(valid: boolean, type: PeerMessageType): asserts valid {
+  if (!valid) {
+    throw new ProtocolError('invalid', `Invalid "${type}" message`);
+  }
+}
+
+/**
+ * Check for a whole number
+ */
+const isInteger = (value: unknown): value is number => {
+  return Number.isInteger(value);
+};
+
+/**
+ * Check for a string short enough to show or store
+ */
+const isText = (value: unknown): value is string => {
+  return typeof value === 'string' && value.length <= 200;
+};
+
+/**
+ * Check for a number of rows or columns of a board that may be played
+ */
+const isDimension = (value: unknown): value is number => {
+  return isInteger(value) && value >= 2 && value <= MAX_BOARD_DIMENSION;
+};
+
+/**
+ * Check for a row or column index below a length
+ */
+const isIndex = (value: unknown, length: number): value is number => {
+  return isCount(value) && value < length;
+};
+
+/**
+ * Check for a cell on the board
+ */
+const isCell = (value: unknown, rows: number, cols: number): boolean => {
+  return isRecord(value) && isIndex(value.row, rows) && isIndex(value.col, cols);
+};
+
+/**
+ * Check for a rotation of a row or column on the board
+ */
+const isRotation = (value: unknown, rows: number, cols: number): boolean => {
+  return isRecord(value) && (value.axis === 'row' || value.axis === 'col') &&
+    isIndex(value.index, value.axis === 'row' ? rows : cols) &&
+    isInteger(value.offset);
+};
+
+/**
+ * Check for a list of clicked cells or rotations that stay on the board
+ */
+const isSolution = (value: unknown, rows: number, cols: number): value is SolutionStep[] => {
+  return Array.isArray(value) && value.length <= MAX_SOLUTION_STEPS &&
+    value.every(step => isRecord(step) && 'axis' in step ? isRotation(step, rows, cols) : isCell(step, rows, cols));
+};
+
+/**
+ * Check for a game in progress on a board of the size being played, with
+ * moves of its puzzle family that stay on the board
+ */
+const isSnapshot = (value: unknown, rows: number, cols: number): value is GameSnapshot => {
+  if (!isRecord(value)) return false;
+
+  const isMove = value.variant === 'sliding' ?
+    (move: unknown) => isRecord(move) && isCell(move.tile, rows, cols) && isCell(move.empty, rows, cols) :
+    (move: unknown) => isRotation(move, rows, cols);
+  const isMoveList = (moves: unknown) => Array.isArray(moves) && moves.length <= MAX_SOLUTION_STEPS && moves.every(isMove);
+
+  return (value.variant === 'sliding' || value.variant === 'loopover') &&
+    isBoard(value.board, rows, cols) &&
+    (value.seed === null || isInteger(value.seed)) &&
+    isMoveList(value.history) && isMoveList(value.redoStack) &&
+    isMoveCounters(value.counters);
+};
+
+/**
+ * Check for an action on a shared board that stays on the board
+ */
+const isSharedAction = (value: unknown, rows: number, cols: number): value is SharedAction => {
+  if (!isRecord(value)) return false;
+
+  switch (value.kind) {
+    case 'move':
+      return isCell(value, rows, cols) && isCell(value.empty, rows, cols);
+    case 'rotation':
+      return isRotation(value, rows, cols);
+    case 'undo':
+    case 'redo':
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check for a rows × cols grid of whole numbers from OBSTACLE up to the
+ * largest tile, rows × cols on a loopover board. Duplicates and solvability
+ * are checked when it is loaded.
+ */
+const isBoard = (value: unknown, rows: number, cols: number): value is number[][] => {
+  return Array.isArray(value) && value.length === rows &&
+    value.every(row => Array.isArray(row) && row.length === cols &&
+      row.every(cell => isInteger(cell) && cell >= OBSTACLE && cell <= rows * cols));
+};
@@ -1,3 +1,21 @@
+import { BoardSize } from '../models/PuzzleModel';
+import { GameSettings } from '../models/GameSettings';
+import { PuzzleImage } from '../utils/image';
+import { GameSnapshot, MoveCounters, ProgressMetrics } from '../models/Puzzle';
+import { RaceWinner, SolutionStep } from '../models/Race';
+import { SharedAction } from '../models/SharedBoard';
+import { PeerMessage, ProtocolError, createWireMessage, parseMessage } from './PeerProtocol';
+
+/**
+ * How long a dropped match waits for the other player to come back
+ */
+export const RECONNECT_GRACE_SECONDS = 30;
+
+/**
+ * How often the guest dials the host again while the match is dropped
+ */
+export const REDIAL_INTERVAL_SECONDS = 3;
+
 /**
  * Interface for peer info
  */
@@ -19,16 +37,31 @@ export class PeerService {
   private initialized: boolean = false;
   private pendingInitCallbacks: (() => void)[] = [];
   private isConnectedToPeer: boolean = false;
+  private boardSize: BoardSize | null = null;
+  private opponentId: string | null = null;
+  private isMatchHost: boolean = false;
+  private reconnecting: boolean = false;
+  private redialTimer: number | null = null;
   
   // Callback functions
   private onGameRequestCallback: ((request: { from: string, name: string }) => void) | null = null;
   private onGameAcceptedCallback: ((from: string) => void) | null = null;
   private onGameDeclinedCallback: ((from: string) => void) | null = null;
-  private onGameStartCallback: ((dimension: number, board: number[][]) => void) | null = null;
-  private onMoveMadeCallback: ((row: number, col: number) => void) | null = null;
-  private onGameWonCallback: ((playerName: string, moves: number, timeSeconds: number) => void) | null = null;
+  private onGameStartCallback: ((size: BoardSize, board: number[][], settings: GameSettings, seed: number | null, goal: number[][] | null) => void) | null = null;
+  private onActionRequestCallback: ((action: SharedAction, sequence: number) => void) | null = null;
+  private onActionCallback: ((action: SharedAction, sequence: number) => void) | null = null;
+  private onActionRejectedCallback: ((sequence: number) => void) | null = null;
+  private onBoardHashCallback: ((sequence: number, hash: number) => void) | null = null;
+  private onSnapshotCallback: ((snapshot: GameSnapshot, sequence: number, elapsedSeconds: number) => void) | null = null;
+  private onGameWonCallback: ((playerName: string, moves: number, timeSeconds: number, solution: SolutionStep[], counters: MoveCounters) => void) | null = null;
+  private onRaceResultCallback: ((winner: RaceWinner, playerName: string, moves: number, timeSeconds: number) => void) | null = null;
+  private onProgressCallback: ((playerName: string, progress: ProgressMetrics) => void) | null = null;
   private onResetGameCallback: (() => void) | null = null;
+  private onPuzzleImageCallback: ((image: PuzzleImage | null) => void) | null = null;
   private onConnectionStatusCallback: ((isConnected: boolean, isHost: boolean) => void) | null = null;
+  private onConnectionLostCallback: (() => void) | null = null;
+  private onConnectionResumedCallback: (() => void) | null = null;
+  private onPeerLeftCallback: (() => void) | null = null;
   private onErrorCallback: ((message: string) => void) | null = null;
   
   /**
@@ -123,9 +156,17 @@ export class PeerService {
   }
   
   /**
-   * Reconnect to PeerJS server
+   * Reconnect to PeerJS server. While a dropped match waits to resume, the
+   * same peer is reconnected so the other player can still reach our ID.
    */
   private reconnect(): void {
+    if (this.peer && this.opponentId && !this.peer.destroyed) {
+      if (this.peer.disconnected) {
+        this.peer.reconnect();
+      }
+      return;
+    }
+    
     if (this.peer) {
       this.peer.destroy();
     }
@@ -199,13 +240,21 @@ export class PeerService {
       
       this.isConnectedToPeer = true;
       
+      // A new connection with the opponent picks the dropped match up again
+      if (conn.peer === this.opponentId && this.reconnecting) {
+        this.connections.set(conn.peer, conn);
+        this.reconnecting = false;
+        this.stopRedial();
+        this.onConnectionResumedCallback?.();
+      }
+      
       // Send our presence
-      conn.send({
+      conn.send(createWireMessage({
         type: 'presence',
         peerId: this.selfId,
         name: this.playerName,
         lastSeen: Date.now()
-      });
+      }));
       
       // Debug info
       this.updateDebugInfo();
@@ -219,12 +268,7 @@ export class PeerService {
     // Connection closed
     conn.on('close', () => {
       this.log("Connection closed:", conn.peer);
-      this.connections.delete(conn.peer);
-      
-      if (this.connections.size === 0) {
-        this.isConnectedToPeer = false;
-        this.onConnectionStatusCallback?.(false, false);
-      }
+      this.handleConnectionEnded(conn);
       
       // Debug info
       this.updateDebugInfo();
@@ -233,37 +277,100 @@ export class PeerService {
     // Connection error
     conn.on('error', (err: any) => {
       console.error("Connection error:", err);
-      this.connections.delete(conn.peer);
-      
-      if (this.connections.size === 0) {
+      this.handleConnectionEnded(conn);
+    });
+  }
+  
+  /**
+   * Forget a closed connection. Losing the opponent during a match starts
+   * the wait for them to come back, with the guest dialling the host again;
+   * any other last connection closing means we are disconnected.
+   */
+  private handleConnectionEnded(conn: any): void {
+    // An older connection to the same peer may close after a newer one opened
+    if (this.connections.get(conn.peer) !== conn) return;
+    
+    this.connections.delete(conn.peer);
+    
+    if (conn.peer === this.opponentId) {
+      if (!this.reconnecting) {
+        this.reconnecting = true;
         this.isConnectedToPeer = false;
-        this.onConnectionStatusCallback?.(false, false);
+        this.onConnectionLostCallback?.();
+        
+        if (!this.isMatchHost) {
+          this.startRedial();
+        }
       }
-    });
+      return;
+    }
+    
+    if (this.connections.size === 0) {
+      this.isConnectedToPeer = false;
+      this.onConnectionStatusCallback?.(false, false);
+    }
+  }
+  
+  /**
+   * Dial the host again every few seconds until the match resumes or ends
+   */
+  private startRedial(): void {
+    this.stopRedial();
+    this.redialTimer = window.setInterval(() => {
+      if (this.opponentId) {
+        this.log("Dialling the host again:", this.opponentId);
+        this.connectToPeer(this.opponentId);
+      }
+    }, REDIAL_INTERVAL_SECONDS * 1000);
+  }
+  
+  /**
+   * Stop dialling the host again
+   */
+  private stopRedial(): void {
+    if (this.redialTimer !== null) {
+      clearInterval(this.redialTimer);
+      this.redialTimer = null;
+    }
   }
   
   /**
-   * Handle data received from a peer
+   * Handle data received from a peer. Messages that fail validation are
+   * reported through the error callback and otherwise ignored.
    */
-  private handleData(data: any, peerId: string): void {
-    if (!data || !data.type) return;
+  private handleData(data: unknown, peerId: string): void {
+    let message: PeerMessage;
+    try {
+      message = parseMessage(data, this.boardSize);
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        this.log(`Rejected message from ${peerId}:`, error.reason, error.message);
+        this.onErrorCallback?.(`The other player sent a message that could not be used: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
     
-    switch (data.type) {
+    switch (message.type) {
       case 'presence':
         // Just log the presence
-        this.log(`Received presence from ${data.name} (${data.peerId})`);
+        this.log(`Received presence from ${message.name} (${message.peerId})`);
         break;
         
       case 'game-request':
         // Game request
         this.onGameRequestCallback?.({
           from: peerId,
-          name: data.name || 'Unknown Player'
+          name: message.name || 'Unknown Player'
         });
         break;
         
       case 'game-accept':
-        // Game accepted - update connection status first
+        // Game accepted - the match is with this peer, and we host it
+        this.opponentId = peerId;
+        this.isMatchHost = true;
+        
+        // Update connection status first
         this.onConnectionStatusCallback?.(true, true);
         // Then notify about acceptance
         this.onGameAcceptedCallback?.(peerId);
@@ -275,31 +382,85 @@ export class PeerService {
         break;
         
       case 'game-start':
-        // Game started
-        this.onGameStartCallback?.(data.dimension, data.board);
+        // Game started; later moves are checked against this board's size
+        this.boardSize = { rows: message.rows, cols: message.cols };
+        this.onGameStartCallback?.(
+          { rows: message.rows, cols: message.cols },
+          message.board,
+          message.settings,
+          message.seed,
+          message.goal
+        );
         break;
         
-      case 'move-made':
-        // Move made
-        this.onMoveMadeCallback?.(data.row, data.col);
+      case 'action-request':
+        // Guest asked the host to apply an action on the shared board
+        this.onActionRequestCallback?.(message.action, message.sequence);
+        break;
+        
+      case 'action':
+        // Host applied an action on the shared board
+        this.onActionCallback?.(message.action, message.sequence);
+        break;
+        
+      case 'action-rejected':
+        // Host turned down an action that no longer fits the board
+        this.onActionRejectedCallback?.(message.sequence);
+        break;
+        
+      case 'board-hash':
+        // Guest's board hash, for the host to compare with its own
+        this.onBoardHashCallback?.(message.sequence, message.hash);
+        break;
+        
+      case 'snapshot':
+        // Host's board, sent when the boards drifted apart
+        this.onSnapshotCallback?.(message.snapshot, message.sequence, message.elapsedSeconds);
         break;
         
       case 'game-won':
         // Game won
-        this.onGameWonCallback?.(data.playerName, data.moves, data.timeSeconds);
+        this.onGameWonCallback?.(message.playerName, message.moves, message.timeSeconds, message.solution, message.counters);
+        break;
+        
+      case 'race-result':
+        // Host decided who won the race
+        this.onRaceResultCallback?.(message.winner, message.playerName, message.moves, message.timeSeconds);
+        break;
+        
+      case 'progress':
+        // How close the other player is to solving
+        this.onProgressCallback?.(message.playerName, message.progress);
         break;
         
       case 'reset-game':
         // Reset game
         this.onResetGameCallback?.();
         break;
+        
+      case 'puzzle-image':
+        // Picture for the tiles, or null for numbers only
+        this.onPuzzleImageCallback?.(message.image);
+        break;
+        
+      case 'leave':
+        // The opponent ended the match on purpose; no need to wait for them
+        if (peerId === this.opponentId) {
+          this.opponentId = null;
+          this.reconnecting = false;
+          this.stopRedial();
+          this.onPeerLeftCallback?.();
+        }
+        break;
     }
   }
   
   /**
-   * Send data to a specific peer
+   * Send a message to a specific peer
    */
-  private sendToPeer(peerId: string, data: any): void {
+  private sendToPeer(peerId: string, message: PeerMessage): void {
+    const data = createWireMessage(message);
+    
     // Get existing connection or create new one
     let conn = this.connections.get(peerId);
     
@@ -326,6 +487,18 @@ export class PeerService {
     }
   }
   
+  /**
+   * Send a message to every open connection
+   */
+  private broadcast(message: PeerMessage): void {
+    const data = createWireMessage(message);
+    this.connections.forEach(conn => {
+      if (conn.open) {
+        conn.send(data);
+      }
+    });
+  }
+  
   /**
    * Request a game with a peer
    */
@@ -341,6 +514,10 @@ export class PeerService {
    * Accept a game request
    */
   public acceptGameRequest(peerId: string): void {
+    // The match is with this peer, who hosts it
+    this.opponentId = peerId;
+    this.isMatchHost = false;
+    
     // First notify about connection status change
     this.onConnectionStatusCallback?.(true, false);
     
@@ -363,33 +540,100 @@ export class PeerService {
   
   /**
    * Start a game with the specified board
+   * @param size Board size
+   * @param board Starting board
+   * @param settings Rules both players play by
+   * @param seed Seed the board was scrambled from, if any
+   * @param goal Arrangement that counts as solved
+   */
+  public startGame(size: BoardSize, board: number[][], settings: GameSettings, seed: number | null, goal: number[][]): void {
+    // The peer's moves are checked against this board's size
+    this.boardSize = { ...size };
+    
+    this.broadcast({
+      type: 'game-start',
+      rows: size.rows,
+      cols: size.cols,
+      board,
+      settings,
+      seed,
+      goal
+    });
+  }
+  
+  /**
+   * Ask the host to apply an action on the shared board
+   * @param action Action the player made
+   * @param sequence Number of the last action applied on this side
    */
-  public startGame(dimension: number, board: number[][]): void {
-    // Send to all open connections
-    this.connections.forEach(conn => {
-      if (conn.open) {
-        conn.send({
-          type: 'game-start',
-          dimension,
-          board
-        });
-      }
+  public requestAction(action: SharedAction, sequence: number): void {
+    this.broadcast({
+      type: 'action-request',
+      action,
+      sequence
     });
   }
   
   /**
-   * Send a move
+   * Send an action the host applied on the shared board
+   * @param action Action applied
+   * @param sequence Number the host gave the action
    */
-  public sendMove(row: number, col: number): void {
-    // Send to all open connections
-    this.connections.forEach(conn => {
-      if (conn.open) {
-        conn.send({
-          type: 'move-made',
-          row,
-          col
-        });
-      }
+  public sendAction(action: SharedAction, sequence: number): void {
+    this.broadcast({
+      type: 'action',
+      action,
+      sequence
+    });
+  }
+  
+  /**
+   * Turn down an action the guest asked for
+   * @param sequence Number of the last action the host applied
+   */
+  public sendActionRejected(sequence: number): void {
+    this.broadcast({
+      type: 'action-rejected',
+      sequence
+    });
+  }
+  
+  /**
+   * Send the hash of the shared board, for the host to check
+   * @param sequence Number of the last action applied on this side
+   * @param hash Hash of the board after that action
+   */
+  public sendBoardHash(sequence: number, hash: number): void {
+    this.broadcast({
+      type: 'board-hash',
+      sequence,
+      hash
+    });
+  }
+  
+  /**
+   * Send the host's game in progress, to replace a board that drifted apart
+   * @param snapshot Board, history and move counts
+   * @param sequence Number of the last action the host applied
+   * @param elapsedSeconds Time since the game started
+   */
+  public sendSnapshot(snapshot: GameSnapshot, sequence: number, elapsedSeconds: number): void {
+    this.broadcast({
+      type: 'snapshot',
+      snapshot,
+      sequence,
+      elapsedSeconds
+    });
+  }
+  
+  /**
+   * Send the picture shown on the tiles
+   * @param image Cropped picture, or null for numbers only
+   */
+  public sendPuzzleImage(image: PuzzleImage | null): void {
+    this.broadcast({
+      type: 'puzzle-image',
+      image
     });
   }
   
@@ -397,18 +641,45 @@ export class PeerService {
    * Send game won notification
    * @param moves Number of moves taken to solve the puzzle
    * @param timeSeconds Time in seconds taken to solve the puzzle
+   * @param solution Moves from the starting board, for the host to check
+   * @param counters Moves, undos and redos behind the solution, for the host to count
+   */
+  public sendGameWon(moves: number, timeSeconds: number, solution: SolutionStep[], counters: MoveCounters): void {
+    this.broadcast({
+      type: 'game-won',
+      playerName: this.playerName,
+      moves: moves,
+      timeSeconds: timeSeconds,
+      solution: solution,
+      counters: counters
+    });
+  }
+  
+  /**
+   * Send who won the race, as decided by the host
+   * @param winner Player whose solve came first
+   * @param playerName Name of the winner
+   * @param moves Number of moves the winner took
+   * @param timeSeconds Time in seconds the winner took
    */
-  public sendGameWon(moves: number, timeSeconds: number): void {
-    // Send to all open connections
-    this.connections.forEach(conn => {
-      if (conn.open) {
-        conn.send({
-          type: 'game-won',
-          playerName: this.playerName,
-          moves: moves,
-          timeSeconds: timeSeconds
-        });
-      }
+  public sendRaceResult(winner: RaceWinner, playerName: string, moves: number, timeSeconds: number): void {
+    this.broadcast({
+      type: 'race-result',
+      winner: winner,
+      playerName: playerName,
+      moves: moves,
+      timeSeconds: timeSeconds
+    });
+  }
+  
+  /**
+   * Send how close this player is to solving
+   */
+  public sendProgress(progress: ProgressMetrics): void {
+    this.broadcast({
+      type: 'progress',
+      playerName: this.playerName,
+      progress: progress
     });
   }
   
@@ -416,13 +687,8 @@ export class PeerService {
    * Send reset game notification
    */
   public sendResetGame(): void {
-    // Send to all open connections
-    this.connections.forEach(conn => {
-      if (conn.open) {
-        conn.send({
-          type: 'reset-game'
-        });
-      }
+    this.broadcast({
+      type: 'reset-game'
     });
   }
   
@@ -430,6 +696,14 @@ export class PeerService {
    * Close all connections
    */
   public close(): void {
+    // Tell the opponent we are leaving, so they do not wait for us
+    if (this.opponentId) {
+      this.broadcast({ type: 'leave' });
+    }
+    this.opponentId = null;
+    this.reconnecting = false;
+    this.stopRedial();
+    
     // Close all connections
     this.connections.forEach(conn => {
       if (conn.open) {
@@ -442,6 +716,7 @@ export class PeerService {
     
     // Reset state
     this.isConnectedToPeer = false;
+    this.boardSize = null;
     this.onConnectionStatusCallback?.(false, false);
   }
   
@@ -499,24 +774,66 @@ export class PeerService {
   /**
    * Set callback for when a game starts
    */
-  public onGameStart(callback: (dimension: number, board: number[][]) => void): void {
+  public onGameStart(callback: (size: BoardSize, board: number[][], settings: GameSettings, seed: number | null, goal: number[][] | null) => void): void {
     this.onGameStartCallback = callback;
   }
   
   /**
-   * Set callback for when a move is made
+   * Set callback for when the guest asks for an action on the shared board
+   */
+  public onActionRequest(callback: (action: SharedAction, sequence: number) => void): void {
+    this.onActionRequestCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the host applied an action on the shared board
    */
-  public onMoveMade(callback: (row: number, col: number) => void): void {
-    this.onMoveMadeCallback = callback;
+  public onAction(callback: (action: SharedAction, sequence: number) => void): void {
+    this.onActionCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the host turns down a requested action
+   */
+  public onActionRejected(callback: (sequence: number) => void): void {
+    this.onActionRejectedCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the guest sends its board hash
+   */
+  public onBoardHash(callback: (sequence: number, hash: number) => void): void {
+    this.onBoardHashCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the host sends its game in progress
+   */
+  public onSnapshot(callback: (snapshot: GameSnapshot, sequence: number, elapsedSeconds: number) => void): void {
+    this.onSnapshotCallback = callback;
   }
   
   /**
    * Set callback for when a player wins
    */
-  public onGameWon(callback: (playerName: string, moves: number, timeSeconds: number) => void): void {
+  public onGameWon(callback: (playerName: string, moves: number, timeSeconds: number, solution: SolutionStep[], counters: MoveCounters) => void): void {
     this.onGameWonCallback = callback;
   }
   
+  /**
+   * Set callback for when the host announces who won the race
+   */
+  public onRaceResult(callback: (winner: RaceWinner, playerName: string, moves: number, timeSeconds: number) => void): void {
+    this.onRaceResultCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the other player's progress changes
+   */
+  public onProgress(callback: (playerName: string, progress: ProgressMetrics) => void): void {
+    this.onProgressCallback = callback;
+  }
+  
   /**
    * Set callback for when the game is reset
    */
@@ -524,6 +841,34 @@ export class PeerService {
     this.onResetGameCallback = callback;
   }
   
+  /**
+   * Set callback for when the other player changes the picture
+   */
+  public onPuzzleImage(callback: (image: PuzzleImage | null) => void): void {
+    this.onPuzzleImageCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the connection to the opponent drops mid-match
+   */
+  public onConnectionLost(callback: () => void): void {
+    this.onConnectionLostCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the opponent is connected again after a drop
+   */
+  public onConnectionResumed(callback: () => void): void {
+    this.onConnectionResumedCallback = callback;
+  }
+  
+  /**
+   * Set callback for when the opponent leaves the match on purpose
+   */
+  public onPeerLeft(callback: () => void): void {
+    this.onPeerLeftCallback = callback;
+  }
+  
   /**
    * Set callback for connection status changes
    */
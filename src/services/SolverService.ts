@@ -0,0 +1,150 @@
+import { SolverProgress, SolverResult } from '../models/PuzzleSolver';
+import type { SolverWorkerRequest, SolverWorkerResponse } from '../workers/solverWorker';
+
+/**
+ * Node budget used off the main thread, where a long search cannot freeze the UI
+ */
+export const WORKER_MAX_NODES = 20_000_000;
+
+/**
+ * Options for a single solve request
+ */
+export interface SolveRequestOptions {
+  goal?: number[][];
+  maxNodes?: number;
+  onProgress?: (progress: SolverProgress) => void;
+}
+
+/**
+ * Bookkeeping for the solve currently running in the worker
+ */
+interface PendingSolve {
+  id: number;
+  resolve: (result: SolverResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: SolverProgress) => void;
+}
+
+/**
+ * Error used to reject a solve that was cancelled before it finished
+ */
+export class SolverCancelledError extends Error {
+  constructor() {
+    super('Solve cancelled');
+    this.name = 'SolverCancelledError';
+  }
+}
+
+/**
+ * Runs the puzzle solver in a Web Worker so searches never block the UI.
+ * Only one solve runs at a time; starting a new one cancels the previous.
+ */
+export class SolverService {
+  private worker: Worker | null = null;
+  private nextId: number = 1;
+  private pending: PendingSolve | null = null;
+
+  /**
+   * Solve a board in the background
+   * @param board Board as returned by PuzzleModel.getBoard()
+   * @param options Goal, node budget and progress listener
+   */
+  public solve(board: number[][], options: SolveRequestOptions = {}): Promise<SolverResult> {
+    this.cancel();
+
+    const id = this.nextId++;
+    const worker = this.getWorker();
+
+    return new Promise<SolverResult>((resolve, reject) => {
+      this.pending = { id, resolve, reject, onProgress: options.onProgress };
+
+      const request: SolverWorkerRequest = {
+        id,
+        board,
+        goal: options.goal,
+        maxNodes: options.maxNodes ?? WORKER_MAX_NODES
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Cancel the running solve, if any. Its promise rejects with SolverCancelledError.
+   */
+  public cancel(): void {
+    if (!this.pending) return;
+
+    // The search is synchronous inside the worker, so the only way to stop it is to terminate
+    this.terminateWorker();
+    this.settle(this.pending.id, pending => pending.reject(new SolverCancelledError()));
+  }
+
+  /**
+   * Check whether a solve is in progress
+   */
+  public isSolving(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Get the worker, creating it on first use or after a cancellation
+   */
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/solverWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SolverWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) => {
+        console.error("Solver worker error:", event.message);
+        this.terminateWorker();
+        if (this.pending) {
+          this.settle(this.pending.id, pending => pending.reject(new Error(event.message || 'Solver worker failed')));
+        }
+      };
+    }
+
+    return this.worker;
+  }
+
+  /**
+   * Handle a message posted by the worker
+   */
+  private handleMessage(message: SolverWorkerResponse): void {
+    // Ignore messages belonging to a solve that has already been cancelled
+    if (!this.pending || this.pending.id !== message.id) return;
+
+    switch (message.type) {
+      case 'progress':
+        this.pending.onProgress?.(message.progress);
+        break;
+
+      case 'result':
+        this.settle(message.id, pending => pending.resolve(message.result));
+        break;
+
+      case 'error':
+        this.settle(message.id, pending => pending.reject(new Error(message.message)));
+        break;
+    }
+  }
+
+  /**
+   * Clear the pending solve and hand it to a callback that resolves or rejects it
+   */
+  private settle(id: number, callback: (pending: PendingSolve) => void): void {
+    const pending = this.pending;
+    if (!pending || pending.id !== id) return;
+
+    this.pending = null;
+    callback(pending);
+  }
+
+  /**
+   * Stop the worker; a fresh one is created on the next solve
+   */
+  private terminateWorker(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+  }
+}
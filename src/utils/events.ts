@@ -0,0 +1,38 @@
+/**
+ * Function called with the payload of an event
+ */
+export type EventListener<T> = (event: T) => void
+
+/**
+ * Minimal typed event emitter
+ * @typeParam Events Map from each event name to the type of its payload
+ */
+export class EventEmitter<Events> {
+  private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {}
+
+  /**
+   * Listen for an event
+   * @returns Function that removes the listener again
+   */
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    const listeners = this.listeners[type] ?? new Set()
+    listeners.add(listener)
+    this.listeners[type] = listeners
+
+    return () => this.off(type, listener)
+  }
+
+  /**
+   * Stop listening for an event
+   */
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    this.listeners[type]?.delete(listener)
+  }
+
+  /**
+   * Call every listener of an event, in the order they were added
+   */
+  emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    this.listeners[type]?.forEach(listener => listener(event))
+  }
+}
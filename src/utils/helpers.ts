@@ -1,3 +1,5 @@
+import { BoardSize } from '../models/PuzzleModel'
+
 /**
  * Sleep for a specified number of milliseconds
  * @param ms Milliseconds to wait
@@ -15,6 +17,29 @@ export const isTouchDevice = (): boolean => {
     ((navigator as any).msMaxTouchPoints > 0)
 }
 
+/**
+ * Check whether a value is one of a record's own keys. Unlike the `in`
+ * operator this ignores inherited keys such as "constructor".
+ */
+export const isOwnKey = <K extends string>(record: Record<K, unknown>, value: unknown): value is K => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(record, value)
+}
+
+/**
+ * Check for an object whose fields can be looked at, e.g. in data received
+ * from a peer or read from storage
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Check for a whole number that is not negative
+ */
+export const isCount = (value: unknown): value is number => {
+  return Number.isInteger(value) && (value as number) >= 0
+}
+
 /**
  * Format time in MM:SS format
  * @param seconds Total seconds
@@ -25,6 +50,25 @@ export const formatTime = (seconds: number): string => {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
 }
 
+/**
+ * Parse a board size value such as "4" or "3x5" (rows x columns)
+ * @param value Size string, usually from the size selector
+ */
+export const parseBoardSize = (value: string): BoardSize => {
+  const [rows, cols] = value.split('x').map(part => parseInt(part))
+  return {
+    rows: rows || 3,
+    cols: cols || rows || 3
+  }
+}
+
+/**
+ * Format a board size for display, e.g. "3×5"
+ */
+export const formatBoardSize = (size: BoardSize): string => {
+  return `${size.rows}×${size.cols}`
+}
+
 /**
  * Generate a random integer between min and max (inclusive)
  */
@@ -0,0 +1,136 @@
+import { BoardSize } from '../models/PuzzleModel'
+import { isRecord } from './helpers'
+
+/**
+ * Picture shown across the tiles, already cropped to the board's shape
+ */
+export interface PuzzleImage {
+  dataUrl: string
+  showNumbers: boolean
+}
+
+/**
+ * Which part of the source image to use
+ */
+export interface ImageCrop {
+  /** 1 uses the largest area that fits, higher values zoom in */
+  zoom: number
+  /** Horizontal position of the crop, 0 = left edge, 1 = right edge */
+  x: number
+  /** Vertical position of the crop, 0 = top edge, 1 = bottom edge */
+  y: number
+}
+
+/**
+ * A picture the player has picked, kept so it can be re-cropped for other board sizes
+ */
+export interface PictureChoice {
+  source: string
+  crop: ImageCrop
+  showNumbers: boolean
+}
+
+/**
+ * Images shipped with the game
+ */
+export const BUNDLED_IMAGES: { name: string; url: string }[] = [
+  { name: 'Sunset', url: '/images/sunset.svg' },
+  { name: 'Waves', url: '/images/waves.svg' },
+  { name: 'Mosaic', url: '/images/mosaic.svg' }
+]
+
+/**
+ * Crop that uses the whole centered image
+ */
+export const DEFAULT_CROP: ImageCrop = { zoom: 1, x: 0.5, y: 0.5 }
+
+/**
+ * Longest side of a cropped image, small enough to send over the data channel
+ */
+export const CROPPED_IMAGE_SIZE = 512
+
+/**
+ * Largest data URL accepted from a peer
+ */
+export const MAX_IMAGE_DATA_URL_LENGTH = 2_000_000
+
+/**
+ * Load an image from a URL or data URL
+ */
+export const loadImage = (source: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Could not load image'))
+    image.src = source
+  })
+}
+
+/**
+ * Read a local file as a data URL
+ */
+export const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error('Could not read file'))
+    reader.readAsDataURL(file)
+  })
+}
+
+/**
+ * Draw the cropped part of an image onto a canvas with the board's aspect ratio
+ * @param canvas Canvas to draw on; it is resized to fit maxSize
+ */
+export const drawCrop = (
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  crop: ImageCrop,
+  size: BoardSize,
+  maxSize: number = CROPPED_IMAGE_SIZE
+): void => {
+  const aspect = size.cols / size.rows
+  const width = image.naturalWidth
+  const height = image.naturalHeight
+
+  // Largest area with the board's aspect ratio, shrunk by the zoom
+  let cropWidth = width / height > aspect ? height * aspect : width
+  let cropHeight = cropWidth / aspect
+  cropWidth /= crop.zoom
+  cropHeight /= crop.zoom
+
+  const sourceX = (width - cropWidth) * crop.x
+  const sourceY = (height - cropHeight) * crop.y
+
+  canvas.width = aspect >= 1 ? maxSize : Math.round(maxSize * aspect)
+  canvas.height = aspect >= 1 ? Math.round(maxSize / aspect) : maxSize
+
+  const context = canvas.getContext('2d')
+  if (!context) return
+
+  context.drawImage(image, sourceX, sourceY, cropWidth, cropHeight, 0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * Crop a picture for a board size
+ */
+export const createPuzzleImage = async (choice: PictureChoice, size: BoardSize): Promise<PuzzleImage> => {
+  const image = await loadImage(choice.source)
+  const canvas = document.createElement('canvas')
+  drawCrop(canvas, image, choice.crop, size)
+
+  return {
+    dataUrl: canvas.toDataURL('image/jpeg', 0.85),
+    showNumbers: choice.showNumbers
+  }
+}
+
+/**
+ * Check that a value received from a peer is a usable puzzle image
+ */
+export const isPuzzleImage = (value: unknown): value is PuzzleImage => {
+  return isRecord(value) && typeof value.dataUrl === 'string' &&
+    value.dataUrl.startsWith('data:image/') &&
+    value.dataUrl.length <= MAX_IMAGE_DATA_URL_LENGTH &&
+    typeof value.showNumbers === 'boolean'
+}
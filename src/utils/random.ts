@@ -0,0 +1,65 @@
+/**
+ * A source of random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number
+
+/**
+ * Largest seed value; seeds are unsigned 32-bit integers
+ */
+export const MAX_SEED = 0xFFFFFFFF
+
+/**
+ * Create a deterministic random source (mulberry32).
+ * The same seed always yields the same sequence.
+ * @param seed Unsigned 32-bit seed
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a fresh random seed
+ */
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * (MAX_SEED + 1)) >>> 0
+}
+
+/**
+ * Format a seed as a short challenge code, e.g. "1Z141Z3"
+ */
+export const formatSeed = (seed: number): string => {
+  return (seed >>> 0).toString(36).toUpperCase()
+}
+
+/**
+ * Parse a challenge code back into a seed
+ * @returns The seed, or null if the code is not valid
+ */
+export const parseSeed = (code: string): number | null => {
+  const trimmed = code.trim()
+  if (!/^[0-9a-z]{1,7}$/i.test(trimmed)) return null
+
+  const seed = parseInt(trimmed, 36)
+  return seed <= MAX_SEED ? seed : null
+}
+
+/**
+ * Derive a seed from text (FNV-1a), so the same text always gives the same seed
+ */
+export const seedFromText = (text: string): number => {
+  let hash = 0x811C9DC5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
@@ -1,4 +1,18 @@
-import { isTouchDevice } from '../utils/helpers'
+import { formatBoardSize, formatTime, isTouchDevice } from '../utils/helpers'
+import { formatSeed } from '../utils/random'
+import { BUNDLED_IMAGES, DEFAULT_CROP, ImageCrop, PictureChoice, PuzzleImage, drawCrop, loadImage, readFileAsDataUrl } from '../utils/image'
+import { BoardSize, Position } from '../models/PuzzleModel'
+import { DEFAULT_GAME_SETTINGS, DIFFICULTY_LABELS, GOAL_LAYOUT_LABELS, GameSettings, MATCH_MODE_LABELS, MOVE_METRIC_ABBREVIATIONS, MatchMode, MOVE_METRIC_LABELS, MoveMetric, OBSTACLE_LAYOUT_LABELS, UNDO_RULE_LABELS, UndoRule, VARIANT_LABELS } from '../models/GameSettings'
+import { Difficulty } from '../models/ScrambleGenerator'
+import { GoalLayout } from '../models/GoalLayout'
+import { ObstacleLayout } from '../models/ObstacleLayout'
+import { DailyResult } from '../models/DailyPuzzle'
+import { BlindfoldPhase, BlindfoldResult, PEEK_PENALTY_SECONDS, getPenalizedTime } from '../models/Blindfold'
+import { DRILL_DESCRIPTIONS, DRILL_LABELS, DrillStats, DrillType } from '../models/Drill'
+import { TutorStep } from '../models/Tutor'
+import { OBSTACLE } from '../models/PuzzleSolver'
+import { ProgressMetrics, PuzzleVariant } from '../models/Puzzle'
+import { RotationAxis, RotationMove } from '../models/LoopoverModel'
 import { PeerInfo } from '../services/PeerDiscoveryService';
 
 /**
@@ -6,6 +20,11 @@ import { PeerInfo } from '../services/PeerDiscoveryService';
  */
 export type TileClickHandler = (row: number, col: number) => void
 
+/**
+ * Type for loopover row and column rotations made by dragging
+ */
+export type RotationHandler = (axis: RotationAxis, index: number, offset: number) => void
+
 /**
  * Type for button click handlers
  */
@@ -26,6 +45,41 @@ export type PlayerSelectCallback = (playerId: string) => void
  */
 export type GameRequestResponseCallback = (accepted: boolean, playerId: string) => void
 
+/**
+ * Handlers for the undo and redo buttons
+ */
+export interface HistoryHandlers {
+  undo: ButtonClickHandler
+  redo: ButtonClickHandler
+}
+
+/**
+ * Handlers for the blindfold buttons
+ */
+export interface BlindfoldHandlers {
+  /** Hide the labels before the inspection time is up */
+  start: ButtonClickHandler
+  /** Show the labels again for a moment, at a time penalty */
+  peek: ButtonClickHandler
+}
+
+/**
+ * Form controls on the welcome screen that hold the chosen game settings
+ */
+export interface WelcomeControls {
+  dimensionSelect: HTMLSelectElement
+  variantSelect: HTMLSelectElement
+  difficultySelect: HTMLSelectElement
+  undoRuleSelect: HTMLSelectElement
+  metricSelect: HTMLSelectElement
+  /** Only on the screen that offers playing together */
+  matchModeSelect?: HTMLSelectElement
+  goalSelect: HTMLSelectElement
+  customGoalInput: HTMLInputElement
+  obstacleSelect: HTMLSelectElement
+  seedInput: HTMLInputElement
+}
+
 /**
  * View class responsible for rendering the puzzle UI
  */
@@ -33,15 +87,27 @@ export class PuzzleView {
   public container: HTMLElement
   private boardElement: HTMLElement | null = null
   private movesCounter: HTMLElement | null = null
+  private historyCounter: HTMLElement | null = null
+  private seedDisplay: HTMLElement | null = null
+  private moveNotation: HTMLElement | null = null
+  private progressBar: HTMLElement | null = null
+  private moveMetric: MoveMetric = DEFAULT_GAME_SETTINGS.metric
   private statusMessage: HTMLElement | null = null
-  private currentDimension: number = 3
+  private currentSize: BoardSize = { rows: 3, cols: 3 }
   private isTouch: boolean = false
   private tileElements: Map<number, HTMLElement> = new Map()
+  private obstacleElements: HTMLElement[] = []
+  private tutorTargets: HTMLElement[] = []
+  private tutorMessage: HTMLElement | null = null
+  private lockedTiles: Set<number> = new Set()
   private isAnimating: boolean = false
   private tileSize: number = 0 // Store tile size for animations
   private multiplayerStatus: HTMLElement | null = null
   private opponentStatus: HTMLElement | null = null
   private modalOverlay: HTMLElement | null = null
+  private tileImage: PuzzleImage | null = null
+  private goalPositions: Map<number, Position> = new Map()
+  private rotationHandler: RotationHandler | null = null
 
   /**
    * Create a new puzzle view
@@ -55,12 +121,18 @@ export class PuzzleView {
   /**
    * Render the welcome screen UI
    * @param startHandler Handler for start button click
-   * @param initialDimension Default puzzle dimension
-   * @returns Selected dimension element for access
+   * @param initialSize Default puzzle size
+   * @param initialSettings Default difficulty and rules
+   * @returns Settings controls for access
    */
-  renderWelcomeScreen(startHandler: ButtonClickHandler, initialDimension: number = 3): HTMLSelectElement {
+  renderWelcomeScreen(
+    startHandler: ButtonClickHandler,
+    initialSize: BoardSize = { rows: 3, cols: 3 },
+    initialSettings: GameSettings = DEFAULT_GAME_SETTINGS
+  ): WelcomeControls {
     // Clear any existing tile references when returning to welcome screen
     this.tileElements.clear()
+    this.obstacleElements = []
     
     this.container.innerHTML = `
       <div class="welcome-screen">
@@ -70,14 +142,15 @@ export class PuzzleView {
           <div class="dimension-selector">
             <label for="dimension-select">Choose puzzle size:</label>
             <select id="dimension-select" aria-label="Puzzle size selection">
-              <option value="3">3×3 (Easy)</option>
-              <option value="4">4×4 (Medium)</option>
-              <option value="5">5×5 (Hard)</option>
-              <option value="6">6×6 (Expert)</option>
-              <option value="7">7×7 (Master)</option>
-              <option value="8">8×8 (Impossible)</option>
+              ${this.renderSizeOptions()}
             </select>
           </div>
+          ${this.renderVariantSelector()}
+          ${this.renderDifficultySelector()}
+          ${this.renderUndoRuleSelector()}
+          ${this.renderMoveMetricSelector()}
+          ${this.renderGoalSelector()}
+          ${this.renderSeedInput()}
           <button id="start-game" class="pulse-button">Start Game</button>
         </div>
       </div>
@@ -86,30 +159,52 @@ export class PuzzleView {
     // Set up event handlers
     const startButton = this.container.querySelector('#start-game') as HTMLButtonElement
     const dimensionSelect = this.container.querySelector('#dimension-select') as HTMLSelectElement
-    
-    // Set initial value
-    dimensionSelect.value = initialDimension.toString()
+    const variantSelect = this.container.querySelector('#variant-select') as HTMLSelectElement
+    const difficultySelect = this.container.querySelector('#difficulty-select') as HTMLSelectElement
+    const undoRuleSelect = this.container.querySelector('#undo-rule-select') as HTMLSelectElement
+    const metricSelect = this.container.querySelector('#metric-select') as HTMLSelectElement
+    const goalSelect = this.container.querySelector('#goal-select') as HTMLSelectElement
+    const customGoalInput = this.container.querySelector('#custom-goal-input') as HTMLInputElement
+    const obstacleSelect = this.container.querySelector('#obstacle-select') as HTMLSelectElement
+    const seedInput = this.container.querySelector('#seed-input') as HTMLInputElement
+    
+    // Set initial values
+    dimensionSelect.value = `${initialSize.rows}x${initialSize.cols}`
+    variantSelect.value = initialSettings.variant
+    difficultySelect.value = initialSettings.difficulty
+    undoRuleSelect.value = initialSettings.undoRule
+    metricSelect.value = initialSettings.metric
+    goalSelect.value = initialSettings.goalLayout
+    obstacleSelect.value = initialSettings.obstacles
+    this.setupGoalSelector(variantSelect, goalSelect)
     
     // Add click handler
     startButton.addEventListener('click', startHandler)
     
-    return dimensionSelect
+    return { dimensionSelect, variantSelect, difficultySelect, undoRuleSelect, metricSelect, goalSelect, customGoalInput, obstacleSelect, seedInput }
   }
 
   /**
    * Render multiplayer welcome screen with additional buttons
    * @param singlePlayerHandler Handler for single player button
    * @param multiplayerHandler Handler for play together button
-   * @param initialDimension Default puzzle dimension
-   * @returns Selected dimension element for access
+   * @param initialSize Default puzzle size
+   * @param initialSettings Default difficulty and rules
+   * @param dailyHandler Handler for the daily puzzle button; hidden when omitted
+   * @returns Settings controls for access
    */
   renderMultiplayerWelcomeScreen(
     singlePlayerHandler: ButtonClickHandler,
     multiplayerHandler: ButtonClickHandler,
-    initialDimension: number = 3
-  ): HTMLSelectElement {
+    initialSize: BoardSize = { rows: 3, cols: 3 },
+    initialSettings: GameSettings = DEFAULT_GAME_SETTINGS,
+    dailyHandler?: ButtonClickHandler,
+    drillHandler?: ButtonClickHandler,
+    blindfoldHandler?: ButtonClickHandler
+  ): WelcomeControls {
     // Clear any existing tile references when returning to welcome screen
     this.tileElements.clear()
+    this.obstacleElements = []
     
     this.container.innerHTML = `
       <div class="welcome-screen">
@@ -119,18 +214,24 @@ export class PuzzleView {
           <div class="dimension-selector">
             <label for="dimension-select">Choose puzzle size:</label>
             <select id="dimension-select" aria-label="Puzzle size selection">
-              <option value="3">3×3 (Easy)</option>
-              <option value="4">4×4 (Medium)</option>
-              <option value="5">5×5 (Hard)</option>
-              <option value="6">6×6 (Expert)</option>
-              <option value="7">7×7 (Master)</option>
-              <option value="8">8×8 (Impossible)</option>
+              ${this.renderSizeOptions()}
             </select>
           </div>
+          ${this.renderVariantSelector()}
+          ${this.renderDifficultySelector()}
+          ${this.renderUndoRuleSelector()}
+          ${this.renderMoveMetricSelector()}
+          ${this.renderMatchModeSelector()}
+          ${this.renderGoalSelector()}
+          ${this.renderSeedInput()}
           <div class="button-group">
             <button id="single-player" class="game-button">Play Solo</button>
             <button id="multiplayer" class="game-button pulse-button">Play Together</button>
+            ${dailyHandler ? '<button id="daily-button" class="game-button">Daily Puzzle</button>' : ''}
+            ${drillHandler ? '<button id="drill-button" class="game-button">Practice Drills</button>' : ''}
+            ${blindfoldHandler ? '<button id="blindfold-button" class="game-button" title="Memorise the board, then solve it with the tiles hidden">Blindfold</button>' : ''}
           </div>
+          ${dailyHandler ? '<p id="daily-status" aria-live="polite"></p>' : ''}
         </div>
       </div>
     `
@@ -139,15 +240,266 @@ export class PuzzleView {
     const singlePlayerButton = this.container.querySelector('#single-player') as HTMLButtonElement
     const multiplayerButton = this.container.querySelector('#multiplayer') as HTMLButtonElement
     const dimensionSelect = this.container.querySelector('#dimension-select') as HTMLSelectElement
-    
-    // Set initial value
-    dimensionSelect.value = initialDimension.toString()
+    const variantSelect = this.container.querySelector('#variant-select') as HTMLSelectElement
+    const difficultySelect = this.container.querySelector('#difficulty-select') as HTMLSelectElement
+    const undoRuleSelect = this.container.querySelector('#undo-rule-select') as HTMLSelectElement
+    const metricSelect = this.container.querySelector('#metric-select') as HTMLSelectElement
+    const matchModeSelect = this.container.querySelector('#match-mode-select') as HTMLSelectElement
+    const goalSelect = this.container.querySelector('#goal-select') as HTMLSelectElement
+    const customGoalInput = this.container.querySelector('#custom-goal-input') as HTMLInputElement
+    const obstacleSelect = this.container.querySelector('#obstacle-select') as HTMLSelectElement
+    const seedInput = this.container.querySelector('#seed-input') as HTMLInputElement
+    
+    // Set initial values
+    dimensionSelect.value = `${initialSize.rows}x${initialSize.cols}`
+    variantSelect.value = initialSettings.variant
+    difficultySelect.value = initialSettings.difficulty
+    undoRuleSelect.value = initialSettings.undoRule
+    metricSelect.value = initialSettings.metric
+    matchModeSelect.value = initialSettings.matchMode
+    goalSelect.value = initialSettings.goalLayout
+    obstacleSelect.value = initialSettings.obstacles
+    this.setupGoalSelector(variantSelect, goalSelect)
     
     // Add click handlers
     singlePlayerButton.addEventListener('click', singlePlayerHandler)
     multiplayerButton.addEventListener('click', multiplayerHandler)
     
-    return dimensionSelect
+    if (dailyHandler) {
+      const dailyButton = this.container.querySelector('#daily-button') as HTMLButtonElement
+      dailyButton.addEventListener('click', dailyHandler)
+    }
+    
+    if (drillHandler) {
+      const drillButton = this.container.querySelector('#drill-button') as HTMLButtonElement
+      drillButton.addEventListener('click', drillHandler)
+    }
+    
+    if (blindfoldHandler) {
+      const blindfoldButton = this.container.querySelector('#blindfold-button') as HTMLButtonElement
+      blindfoldButton.addEventListener('click', blindfoldHandler)
+    }
+    
+    return { dimensionSelect, variantSelect, difficultySelect, undoRuleSelect, metricSelect, matchModeSelect, goalSelect, customGoalInput, obstacleSelect, seedInput }
+  }
+
+  /**
+   * Render the drill selection screen, with a card for each drill
+   * @param drillHandler Called with the drill the player picks
+   * @param backHandler Called to go back to the welcome screen
+   * @returns The size selector, so the controller can follow size changes
+   */
+  renderDrillScreen(
+    initialSize: BoardSize,
+    drillHandler: (drill: DrillType) => void,
+    backHandler: ButtonClickHandler
+  ): HTMLSelectElement {
+    this.tileElements.clear()
+    this.obstacleElements = []
+    
+    const cards = (Object.keys(DRILL_LABELS) as DrillType[]).map(drill => `
+      <button class="drill-card" data-drill="${drill}">
+        <strong>${DRILL_LABELS[drill]}</strong>
+        <span>${DRILL_DESCRIPTIONS[drill]}</span>
+        <span class="drill-stats" aria-live="polite"></span>
+      </button>
+    `).join('')
+    
+    this.container.innerHTML = `
+      <div class="welcome-screen">
+        <h1>Practice Drills</h1>
+        <div class="welcome-content">
+          <p>Everything outside the drilled part starts solved. Times and success rates are kept for each drill and size.</p>
+          <div class="dimension-selector">
+            <label for="drill-size-select">Puzzle size:</label>
+            <select id="drill-size-select" aria-label="Drill puzzle size selection">
+              ${this.renderSizeOptions()}
+            </select>
+          </div>
+          <div class="drill-list">${cards}</div>
+          <p id="drill-status" aria-live="polite"></p>
+          <div class="button-group">
+            <button id="drill-back-button" class="game-button">Back</button>
+          </div>
+        </div>
+      </div>
+    `
+    
+    const sizeSelect = this.container.querySelector('#drill-size-select') as HTMLSelectElement
+    sizeSelect.value = `${initialSize.rows}x${initialSize.cols}`
+    
+    this.container.querySelectorAll<HTMLButtonElement>('.drill-card').forEach(card => {
+      card.addEventListener('click', () => drillHandler(card.dataset.drill as DrillType))
+    })
+    const backButton = this.container.querySelector('#drill-back-button') as HTMLButtonElement
+    backButton.addEventListener('click', backHandler)
+    
+    return sizeSelect
+  }
+
+  /**
+   * Build the option list for the puzzle size selector.
+   * Values are "ROWSxCOLS" strings, parsed with parseBoardSize.
+   */
+  private renderSizeOptions(): string {
+    return `
+      <optgroup label="Square">
+        <option value="3x3">3×3</option>
+        <option value="4x4">4×4</option>
+        <option value="5x5">5×5</option>
+        <option value="6x6">6×6</option>
+        <option value="7x7">7×7</option>
+        <option value="8x8">8×8</option>
+      </optgroup>
+      <optgroup label="Rectangular">
+        <option value="2x4">2×4</option>
+        <option value="3x4">3×4</option>
+        <option value="3x5">3×5</option>
+        <option value="4x5">4×5</option>
+        <option value="4x6">4×6</option>
+        <option value="5x6">5×6</option>
+      </optgroup>
+    `
+  }
+
+  /**
+   * Build the puzzle family selector shown on the welcome screens
+   */
+  private renderVariantSelector(): string {
+    const options = (Object.keys(VARIANT_LABELS) as PuzzleVariant[])
+      .map(variant => `<option value="${variant}">${VARIANT_LABELS[variant]}</option>`)
+      .join('')
+    
+    return `
+      <div class="dimension-selector">
+        <label for="variant-select">Puzzle:</label>
+        <select id="variant-select" aria-label="Puzzle type selection">${options}</select>
+      </div>
+    `
+  }
+
+  /**
+   * Build the difficulty selector shown on the welcome screens
+   */
+  private renderDifficultySelector(): string {
+    const options = (Object.keys(DIFFICULTY_LABELS) as Difficulty[])
+      .map(difficulty => `<option value="${difficulty}">${DIFFICULTY_LABELS[difficulty]}</option>`)
+      .join('')
+    
+    return `
+      <div class="dimension-selector">
+        <label for="difficulty-select">Difficulty:</label>
+        <select id="difficulty-select" aria-label="Difficulty selection">${options}</select>
+      </div>
+    `
+  }
+
+  /**
+   * Build the undo rule selector shown on the welcome screens
+   */
+  private renderUndoRuleSelector(): string {
+    const options = (Object.keys(UNDO_RULE_LABELS) as UndoRule[])
+      .map(rule => `<option value="${rule}">${UNDO_RULE_LABELS[rule]}</option>`)
+      .join('')
+    
+    return `
+      <div class="dimension-selector">
+        <label for="undo-rule-select">Undo:</label>
+        <select id="undo-rule-select" aria-label="Undo rule selection">${options}</select>
+      </div>
+    `
+  }
+
+  /**
+   * Build the move metric selector shown on the welcome screens
+   */
+  private renderMoveMetricSelector(): string {
+    const options = (Object.keys(MOVE_METRIC_LABELS) as MoveMetric[])
+      .map(metric => `<option value="${metric}">${MOVE_METRIC_LABELS[metric]}</option>`)
+      .join('')
+    
+    return `
+      <div class="dimension-selector">
+        <label for="metric-select">Count moves:</label>
+        <select id="metric-select" aria-label="Move counting selection">${options}</select>
+      </div>
+    `
+  }
+
+  /**
+   * Build the selector for how two players share a game
+   */
+  private renderMatchModeSelector(): string {
+    const options = (Object.keys(MATCH_MODE_LABELS) as MatchMode[])
+      .map(mode => `<option value="${mode}">${MATCH_MODE_LABELS[mode]}</option>`)
+      .join('')
+    
+    return `
+      <div class="dimension-selector">
+        <label for="match-mode-select">Play together as:</label>
+        <select id="match-mode-select" aria-label="Match mode selection">${options}</select>
+      </div>
+    `
+  }
+
+  /**
+   * Build the goal layout selector, the custom goal input and the obstacle
+   * selector shown on the welcome screens
+   */
+  private renderGoalSelector(): string {
+    const options = (Object.keys(GOAL_LAYOUT_LABELS) as GoalLayout[])
+      .map(layout => `<option value="${layout}">${GOAL_LAYOUT_LABELS[layout]}</option>`)
+      .join('')
+    const obstacleOptions = (Object.keys(OBSTACLE_LAYOUT_LABELS) as ObstacleLayout[])
+      .map(layout => `<option value="${layout}">${OBSTACLE_LAYOUT_LABELS[layout]}</option>`)
+      .join('')
+    
+    return `
+      <div class="dimension-selector" id="goal-row">
+        <label for="goal-select">Goal:</label>
+        <select id="goal-select" aria-label="Goal layout selection">${options}</select>
+      </div>
+      <div class="dimension-selector" id="custom-goal-row" hidden>
+        <label for="custom-goal-input">Custom goal:</label>
+        <input type="text" id="custom-goal-input" placeholder="1 2 3 / 4 0 5 / 6 7 8" autocomplete="off" aria-label="Custom goal, tiles row by row with 0 for the empty space and # for a blocked cell" />
+      </div>
+      <div class="dimension-selector" id="obstacle-row">
+        <label for="obstacle-select">Obstacles:</label>
+        <select id="obstacle-select" aria-label="Obstacle selection">${obstacleOptions}</select>
+      </div>
+    `
+  }
+
+  /**
+   * Show the goal and obstacle selectors only for sliding puzzles, and the
+   * custom goal input only while the custom layout is selected
+   */
+  private setupGoalSelector(variantSelect: HTMLSelectElement, goalSelect: HTMLSelectElement): void {
+    const goalRow = this.container.querySelector('#goal-row') as HTMLElement
+    const customGoalRow = this.container.querySelector('#custom-goal-row') as HTMLElement
+    const obstacleRow = this.container.querySelector('#obstacle-row') as HTMLElement
+    const update = () => {
+      const sliding = variantSelect.value === 'sliding'
+      goalRow.hidden = !sliding
+      obstacleRow.hidden = !sliding
+      customGoalRow.hidden = !sliding || goalSelect.value !== 'custom'
+    }
+    
+    variantSelect.addEventListener('change', update)
+    goalSelect.addEventListener('change', update)
+    update()
+  }
+
+  /**
+   * Build the challenge code input shown on the welcome screens
+   */
+  private renderSeedInput(): string {
+    return `
+      <div class="dimension-selector">
+        <label for="seed-input">Challenge code:</label>
+        <input type="text" id="seed-input" placeholder="Optional" maxlength="7" autocomplete="off" aria-label="Challenge code" />
+      </div>
+    `
   }
 
   /**
@@ -223,7 +575,7 @@ export class PuzzleView {
     modal.innerHTML = `
       <div class="modal-content">
         <h2>Waiting for Player</h2>
-        <p>Waiting for ${playerName} to accept your game invite...</p>
+        <p>Waiting for <span class="invite-name"></span> to accept your game invite...</p>
         <div class="loading-spinner"></div>
         <div class="modal-buttons">
           <button id="cancel-button">Cancel</button>
@@ -231,6 +583,10 @@ export class PuzzleView {
       </div>
     `;
     
+    // Names come from the other player, so set them as text
+    const nameElement = modal.querySelector('.invite-name') as HTMLElement;
+    nameElement.textContent = playerName;
+    
     // Set up event handlers
     const cancelButton = modal.querySelector('#cancel-button') as HTMLButtonElement;
     
@@ -255,7 +611,7 @@ export class PuzzleView {
     modal.innerHTML = `
       <div class="modal-content">
         <h2>Game Invitation</h2>
-        <p>${playerName} has invited you to play a puzzle game!</p>
+        <p><span class="invite-name"></span> has invited you to play a puzzle game!</p>
         <div class="modal-buttons">
           <button id="accept-button" class="primary-button">Accept</button>
           <button id="decline-button">Decline</button>
@@ -263,6 +619,10 @@ export class PuzzleView {
       </div>
     `;
     
+    // Names come from the other player, so set them as text
+    const nameElement = modal.querySelector('.invite-name') as HTMLElement;
+    nameElement.textContent = playerName;
+    
     // Set up event handlers
     const acceptButton = modal.querySelector('#accept-button') as HTMLButtonElement;
     const declineButton = modal.querySelector('#decline-button') as HTMLButtonElement;
@@ -288,13 +648,17 @@ export class PuzzleView {
     modal.innerHTML = `
       <div class="modal-content">
         <h2>Request Declined</h2>
-        <p>${playerName} has declined your game invitation.</p>
+        <p><span class="invite-name"></span> has declined your game invitation.</p>
         <div class="modal-buttons">
           <button id="ok-button">OK</button>
         </div>
       </div>
     `;
     
+    // Names come from the other player, so set them as text
+    const nameElement = modal.querySelector('.invite-name') as HTMLElement;
+    nameElement.textContent = playerName;
+    
     // Set up event handlers
     const okButton = modal.querySelector('#ok-button') as HTMLButtonElement;
     
@@ -303,6 +667,77 @@ export class PuzzleView {
     });
   }
 
+  /**
+   * Show that the other player dropped out, with the time left for them to
+   * come back. Updates the countdown if the dialog is already open.
+   * @param secondsLeft Seconds until the match ends
+   * @param endHandler Handler for ending the match without waiting
+   */
+  showReconnecting(secondsLeft: number, endHandler: ButtonClickHandler): void {
+    let countdown = this.modalOverlay?.querySelector('#reconnect-countdown') as HTMLElement | null
+    
+    if (!countdown) {
+      const modal = this.createModalElement()
+      modal.innerHTML = `
+        <div class="modal-content">
+          <h2>Connection Lost</h2>
+          <p>Reconnecting to the other player...</p>
+          <div class="loading-spinner"></div>
+          <p id="reconnect-countdown"></p>
+          <div class="modal-buttons">
+            <button id="end-match-button">End match</button>
+          </div>
+        </div>
+      `
+      
+      const endButton = modal.querySelector('#end-match-button') as HTMLButtonElement
+      endButton.addEventListener('click', () => endHandler())
+      countdown = modal.querySelector('#reconnect-countdown') as HTMLElement
+    }
+    
+    countdown.textContent = `The match ends in ${secondsLeft} s if they do not come back.`
+  }
+
+  /**
+   * Close the dialog shown while reconnecting, if it is open
+   */
+  hideReconnecting(): void {
+    if (this.modalOverlay?.querySelector('#reconnect-countdown')) {
+      this.closeModal()
+    }
+  }
+
+  /**
+   * Show how a match ended
+   * @param reason Why the match ended
+   * @param result Outcome of the match
+   */
+  showMatchEnded(reason: string, result: string): void {
+    const modal = this.createModalElement()
+    
+    modal.innerHTML = `
+      <div class="modal-content">
+        <h2>Match Over</h2>
+        <p class="match-end-reason"></p>
+        <p class="match-end-result"></p>
+        <div class="modal-buttons">
+          <button id="ok-button" class="primary-button">OK</button>
+        </div>
+      </div>
+    `
+    
+    // Names in the result come from the peer, so set them as text
+    const reasonElement = modal.querySelector('.match-end-reason') as HTMLElement
+    const resultElement = modal.querySelector('.match-end-result') as HTMLElement
+    reasonElement.textContent = reason
+    resultElement.textContent = result
+    
+    const okButton = modal.querySelector('#ok-button') as HTMLButtonElement
+    okButton.addEventListener('click', () => {
+      this.closeModal()
+    })
+  }
+
   /**
    * Show modal dialog to host a game
    * @param offerCode The offer code to share with the other player
@@ -523,11 +958,15 @@ export class PuzzleView {
     errorModal.innerHTML = `
       <div class="modal-content">
         <h3>Error</h3>
-        <p>${message}</p>
+        <p class="error-text"></p>
         <button class="modal-button">OK</button>
       </div>
     `;
     
+    // Errors can carry text from the other player, so never parse it as HTML
+    const text = errorModal.querySelector('.error-text') as HTMLElement;
+    text.textContent = message;
+    
     // Add click handler to close
     const button = errorModal.querySelector('.modal-button');
     if (button) {
@@ -568,26 +1007,56 @@ export class PuzzleView {
 
   /**
    * Render the game UI
-   * @param dimension Puzzle dimension
+   * @param size Puzzle size
    * @param shuffleHandler Handler for shuffle button click
    * @param backHandler Handler for back button click
+   * @param hintHandler Handler for hint button click; the button is hidden when omitted
+   * @param historyHandlers Handlers for the undo and redo buttons; hidden when omitted
+   * @param pictureHandler Handler for the picture button; hidden when omitted
+   * @param copyMovesHandler Handler for the copy moves button; the button and the
+   *   move notation are hidden when omitted
+   * @param tutorHandler Handler for the tutor button; hidden when omitted
+   * @param blindfoldHandlers Handlers for the hide and peek buttons of a
+   *   blindfold solve; hidden when omitted
    */
-  renderGameUI(dimension: number, shuffleHandler: ButtonClickHandler, backHandler: ButtonClickHandler): void {
-    this.currentDimension = dimension
+  renderGameUI(
+    size: BoardSize,
+    shuffleHandler: ButtonClickHandler,
+    backHandler: ButtonClickHandler,
+    hintHandler?: ButtonClickHandler,
+    historyHandlers?: HistoryHandlers,
+    pictureHandler?: ButtonClickHandler,
+    copyMovesHandler?: ButtonClickHandler,
+    tutorHandler?: ButtonClickHandler,
+    blindfoldHandlers?: BlindfoldHandlers
+  ): void {
+    this.currentSize = size
     
     // Update container with game UI
     this.container.innerHTML = `
       <div class="puzzle-container fullscreen">
         <div class="game-header">
-          <h2>Sliding Puzzle ${dimension}×${dimension}</h2>
+          <h2>Sliding Puzzle ${formatBoardSize(size)}</h2>
           <div class="game-stats">
             <div id="moves-counter" aria-live="polite">Moves: 0</div>
+            ${historyHandlers ? '<div id="history-counter">History: 0</div>' : ''}
+            <div id="seed-display" title="Share this code to play the same puzzle"></div>
             <div id="status-message" aria-live="assertive"></div>
           </div>
+          ${this.renderProgressBar()}
+          ${copyMovesHandler ? '<div id="move-notation" title="Moves so far in move notation"></div>' : ''}
+          <div id="goal-preview" aria-label="Goal layout" hidden></div>
+          ${tutorHandler ? '<div id="tutor-message" aria-live="polite" hidden></div>' : ''}
         </div>
         <div class="puzzle-board" id="puzzle-board" role="grid" aria-label="Sliding puzzle game board"></div>
         <div class="puzzle-controls">
           <button id="shuffle-button">Shuffle</button>
+          ${historyHandlers ? this.renderHistoryButtons() : ''}
+          ${hintHandler ? '<button id="hint-button">Hint</button>' : ''}
+          ${tutorHandler ? '<button id="tutor-button" aria-pressed="false" title="Learn the row-by-row method">Tutor</button>' : ''}
+          ${pictureHandler ? '<button id="picture-button">Picture</button>' : ''}
+          ${copyMovesHandler ? '<button id="copy-moves-button" title="Copy the moves so far">Copy moves</button>' : ''}
+          ${blindfoldHandlers ? this.renderBlindfoldButtons() : ''}
           <button id="back-button">Back</button>
         </div>
       </div>
@@ -605,12 +1074,30 @@ export class PuzzleView {
     shuffleButton.addEventListener('click', shuffleHandler)
     backButton.addEventListener('click', backHandler)
     
+    if (hintHandler) {
+      const hintButton = this.container.querySelector('#hint-button') as HTMLButtonElement
+      hintButton.addEventListener('click', hintHandler)
+    }
+    
+    this.tutorMessage = this.container.querySelector('#tutor-message')
+    if (tutorHandler) {
+      const tutorButton = this.container.querySelector('#tutor-button') as HTMLButtonElement
+      tutorButton.addEventListener('click', tutorHandler)
+    }
+    
+    this.setupHistoryButtons(historyHandlers)
+    this.setupPictureButton(pictureHandler)
+    this.setupCopyMovesButton(copyMovesHandler)
+    this.setupBlindfoldButtons(blindfoldHandlers)
+    this.progressBar = this.container.querySelector('#progress-bar')
+    
     // Clear previous tile references
     this.tileElements.clear()
+    this.obstacleElements = []
     
     // Debug log the board dimensions in solo game
     console.log("SOLO GAME BOARD DIMENSIONS: ", {
-      dimension,
+      size,
       boardElement: this.boardElement,
       style: this.boardElement ? {
         width: this.boardElement.style.width,
@@ -621,30 +1108,42 @@ export class PuzzleView {
 
   /**
    * Render the multiplayer game UI
-   * @param dimension Puzzle dimension
+   * @param size Puzzle size
    * @param shuffleHandler Handler for shuffle button click
    * @param backHandler Handler for back button click
    * @param playerName Current player's name
    * @param opponentName Opponent's name
+   * @param historyHandlers Handlers for the undo and redo buttons; hidden when omitted
+   * @param pictureHandler Handler for the picture button; hidden when omitted
+   * @param copyMovesHandler Handler for the copy moves button; the button and the
+   *   move notation are hidden when omitted
    */
   renderMultiplayerGameUI(
-    dimension: number, 
+    size: BoardSize, 
     shuffleHandler: ButtonClickHandler, 
     backHandler: ButtonClickHandler,
     playerName: string = 'You',
-    opponentName: string = 'Opponent'
+    opponentName: string = 'Opponent',
+    historyHandlers?: HistoryHandlers,
+    pictureHandler?: ButtonClickHandler,
+    copyMovesHandler?: ButtonClickHandler
   ): void {
-    this.currentDimension = dimension
+    this.currentSize = size
     
     // Update container with game UI
     this.container.innerHTML = `
       <div class="puzzle-container fullscreen">
         <div class="game-header">
-          <h2>Sliding Puzzle ${dimension}×${dimension} - Play Together</h2>
+          <h2>Sliding Puzzle ${formatBoardSize(size)} - Play Together</h2>
           <div class="game-stats">
             <div id="moves-counter" aria-live="polite">Moves: 0</div>
+            ${historyHandlers ? '<div id="history-counter">History: 0</div>' : ''}
+            <div id="seed-display" title="Share this code to play the same puzzle"></div>
             <div id="status-message" aria-live="assertive"></div>
           </div>
+          ${this.renderProgressBar()}
+          ${copyMovesHandler ? '<div id="move-notation" title="Moves so far in move notation"></div>' : ''}
+          <div id="goal-preview" aria-label="Goal layout" hidden></div>
           <div class="multiplayer-status">
             <div id="connection-status">Connected</div>
             <div id="opponent-status"></div>
@@ -653,6 +1152,9 @@ export class PuzzleView {
         <div class="puzzle-board" id="puzzle-board" role="grid" aria-label="Sliding puzzle game board"></div>
         <div class="puzzle-controls">
           <button id="shuffle-button">Shuffle</button>
+          ${historyHandlers ? this.renderHistoryButtons() : ''}
+          ${pictureHandler ? '<button id="picture-button">Picture</button>' : ''}
+          ${copyMovesHandler ? '<button id="copy-moves-button" title="Copy the moves so far">Copy moves</button>' : ''}
           <button id="back-button">Back</button>
         </div>
       </div>
@@ -672,12 +1174,18 @@ export class PuzzleView {
     shuffleButton.addEventListener('click', shuffleHandler)
     backButton.addEventListener('click', backHandler)
     
+    this.setupHistoryButtons(historyHandlers)
+    this.setupPictureButton(pictureHandler)
+    this.setupCopyMovesButton(copyMovesHandler)
+    this.progressBar = this.container.querySelector('#progress-bar')
+    
     // Clear previous tile references
     this.tileElements.clear()
+    this.obstacleElements = []
     
     // Debug log the board dimensions in multiplayer game
     console.log("MULTIPLAYER GAME BOARD DIMENSIONS: ", {
-      dimension,
+      size,
       boardElement: this.boardElement,
       style: this.boardElement ? {
         width: this.boardElement.style.width,
@@ -686,6 +1194,144 @@ export class PuzzleView {
     });
   }
 
+  /**
+   * Build the undo and redo buttons
+   */
+  private renderHistoryButtons(): string {
+    return `
+      <button id="undo-button" title="Undo (Ctrl+Z)" disabled>Undo</button>
+      <button id="redo-button" title="Redo (Ctrl+Y)" disabled>Redo</button>
+    `
+  }
+
+  /**
+   * Build the progress bar shown under the game stats
+   */
+  private renderProgressBar(): string {
+    return `
+      <div id="progress-bar" class="progress-bar" role="progressbar" aria-label="Progress" aria-valuemin="0" aria-valuemax="100" aria-valuenow="0">
+        <div class="progress-fill"></div>
+        <span class="progress-label"></span>
+      </div>
+    `
+  }
+
+  /**
+   * Store the history counter and wire the undo and redo buttons, if shown
+   */
+  private setupHistoryButtons(historyHandlers?: HistoryHandlers): void {
+    this.historyCounter = this.container.querySelector('#history-counter')
+    this.seedDisplay = this.container.querySelector('#seed-display')
+    
+    if (!historyHandlers) return
+    
+    const undoButton = this.container.querySelector('#undo-button') as HTMLButtonElement
+    const redoButton = this.container.querySelector('#redo-button') as HTMLButtonElement
+    
+    undoButton.addEventListener('click', historyHandlers.undo)
+    redoButton.addEventListener('click', historyHandlers.redo)
+  }
+
+  /**
+   * Wire the picture button, if shown
+   */
+  private setupPictureButton(pictureHandler?: ButtonClickHandler): void {
+    if (!pictureHandler) return
+    
+    const pictureButton = this.container.querySelector('#picture-button') as HTMLButtonElement
+    pictureButton.addEventListener('click', pictureHandler)
+  }
+
+  /**
+   * Store the move notation display and wire the copy moves button, if shown
+   */
+  private setupCopyMovesButton(copyMovesHandler?: ButtonClickHandler): void {
+    this.moveNotation = this.container.querySelector('#move-notation')
+    
+    if (!copyMovesHandler) return
+    
+    const copyMovesButton = this.container.querySelector('#copy-moves-button') as HTMLButtonElement
+    copyMovesButton.addEventListener('click', copyMovesHandler)
+  }
+
+  /**
+   * Build the hide and peek buttons of a blindfold solve
+   */
+  private renderBlindfoldButtons(): string {
+    return `
+      <button id="blindfold-start-button" title="Hide the tiles and start the clock">Hide tiles</button>
+      <button id="peek-button" title="Show the tiles for a moment" disabled>Peek (+${PEEK_PENALTY_SECONDS} s)</button>
+    `
+  }
+
+  /**
+   * Wire the hide and peek buttons, if shown
+   */
+  private setupBlindfoldButtons(blindfoldHandlers?: BlindfoldHandlers): void {
+    if (!blindfoldHandlers) return
+    
+    const startButton = this.container.querySelector('#blindfold-start-button') as HTMLButtonElement
+    const peekButton = this.container.querySelector('#peek-button') as HTMLButtonElement
+    
+    startButton.addEventListener('click', blindfoldHandlers.start)
+    peekButton.addEventListener('click', blindfoldHandlers.peek)
+  }
+
+  /**
+   * Show the board for a stage of a blindfold solve. While solving, every
+   * tile is a blank square: only its position is shown, along with any
+   * blocked cells, and the progress bar is hidden too.
+   */
+  setBlindfoldPhase(phase: BlindfoldPhase): void {
+    const puzzleContainer = this.container.querySelector('.puzzle-container')
+    const startButton = this.container.querySelector('#blindfold-start-button') as HTMLButtonElement | null
+    const peekButton = this.container.querySelector('#peek-button') as HTMLButtonElement | null
+    
+    puzzleContainer?.classList.toggle('blindfolded', phase === 'solving')
+    puzzleContainer?.classList.remove('peeking')
+    if (startButton) startButton.hidden = phase !== 'inspecting'
+    if (peekButton) peekButton.disabled = phase !== 'solving'
+  }
+
+  /**
+   * Show or hide the tile labels during a peek at a blindfold solve
+   */
+  setPeeking(peeking: boolean): void {
+    this.container.querySelector('.puzzle-container')?.classList.toggle('peeking', peeking)
+  }
+
+  /**
+   * Count down the inspection time of a blindfold solve
+   * @param secondsLeft Seconds until the tiles are hidden
+   */
+  showInspectionCountdown(secondsLeft: number): void {
+    this.showStatusMessage(`Memorise the board: tiles hide in ${secondsLeft} s. Making a move hides them at once.`)
+  }
+
+  /**
+   * Show the moves made so far in move notation
+   * @param notation Notation string, empty before the first move
+   */
+  showMoveNotation(notation: string): void {
+    if (this.moveNotation) {
+      this.moveNotation.textContent = notation
+    }
+  }
+
+  /**
+   * Show how close the board is to the goal
+   */
+  updateProgress(progress: ProgressMetrics): void {
+    if (!this.progressBar) return
+    
+    const fill = this.progressBar.querySelector('.progress-fill') as HTMLElement
+    const label = this.progressBar.querySelector('.progress-label') as HTMLElement
+    fill.style.width = `${progress.percent}%`
+    label.textContent = `${progress.percent}% · ${progress.tilesInPlace}/${progress.tileCount} tiles in place`
+    this.progressBar.title = `Total distance from the goal: ${progress.distance}`
+    this.progressBar.setAttribute('aria-valuenow', String(progress.percent))
+  }
+
   /**
    * Update the board display with current game state
    * @param board The game board state
@@ -694,24 +1340,27 @@ export class PuzzleView {
   updateBoard(board: number[][], clickHandler: TileClickHandler): void {
     if (!this.boardElement) return
     
-    const dimension = board.length
+    const size = { rows: board.length, cols: board[0].length }
+    const expectedTileCount = board.flat().filter(value => value > 0).length
     
     console.log("UPDATE BOARD CALLED: ", {
-      dimension,
+      size,
       boardElementExists: !!this.boardElement,
       tileElementsCount: this.tileElements.size,
-      expectedTileCount: dimension * dimension - 1
+      expectedTileCount
     });
     
     // If this is a complete reset (like after shuffle), clear all tiles
-    if (this.tileElements.size === 0 || this.tileElements.size !== dimension * dimension - 1) {
+    if (this.tileElements.size === 0 || this.tileElements.size !== expectedTileCount) {
       console.log("REBUILDING TILES FROM SCRATCH");
       // Clear the board
       this.boardElement.innerHTML = ''
       this.tileElements.clear()
+      this.obstacleElements = []
       
       // Update board grid styling
-      this.updateBoardStyle(dimension)
+      this.currentSize = size
+      this.updateBoardStyle(size)
       
       // Create new tile elements
       this.createTileElements(board, clickHandler)
@@ -722,43 +1371,171 @@ export class PuzzleView {
     }
   }
 
+  /**
+   * Update a loopover board, where rows and columns are rotated by dragging
+   * @param board The game board state
+   * @param rotationHandler Handler for rotations made by dragging or with the arrow keys
+   * @param rotation The rotation that led to this board, animated with wrap-around
+   */
+  updateLoopoverBoard(board: number[][], rotationHandler: RotationHandler, rotation?: RotationMove): void {
+    if (!this.boardElement) return
+    
+    this.rotationHandler = rotationHandler
+    this.setupRotationInput()
+    
+    const size = { rows: board.length, cols: board[0].length }
+    
+    if (this.tileElements.size !== size.rows * size.cols) {
+      this.boardElement.innerHTML = ''
+      this.tileElements.clear()
+      this.obstacleElements = []
+      
+      this.currentSize = size
+      this.updateBoardStyle(size)
+      
+      // Tiles are moved by dragging, not by clicking
+      this.createTileElements(board, () => {})
+      return
+    }
+    
+    board.forEach((rowValues, row) => {
+      rowValues.forEach((value, col) => {
+        const tile = this.tileElements.get(value)
+        if (!tile) return
+        
+        const oldRow = parseInt(tile.dataset.row || '0')
+        const oldCol = parseInt(tile.dataset.col || '0')
+        if (oldRow === row && oldCol === col) return
+        
+        tile.dataset.row = row.toString()
+        tile.dataset.col = col.toString()
+        
+        // Every tile in the line slides by the same offset; the ones that
+        // wrapped around start just outside the opposite edge
+        const inLine = rotation && (rotation.axis === 'row' ? rotation.index === row : rotation.index === col)
+        const startRow = inLine && rotation.axis === 'col' ? row - rotation.offset : oldRow
+        const startCol = inLine && rotation.axis === 'row' ? col - rotation.offset : oldCol
+        
+        if (startRow !== oldRow || startCol !== oldCol) {
+          tile.style.transition = 'none'
+          this.setTilePosition(tile, startRow, startCol, true)
+          void tile.offsetWidth
+          tile.style.transition = ''
+        }
+        
+        this.animateTileMove(tile, startRow, startCol, row, col)
+      })
+    })
+  }
+
+  /**
+   * Turn drags and arrow keys on the board into row and column rotations.
+   * The board element is recreated with each game UI, so this runs once per board.
+   */
+  private setupRotationInput(): void {
+    const board = this.boardElement
+    if (!board || board.dataset.rotationInput) return
+    
+    board.dataset.rotationInput = 'true'
+    board.classList.add('loopover')
+    
+    let drag: { pointerId: number, x: number, y: number, row: number, col: number } | null = null
+    
+    board.addEventListener('pointerdown', (e) => {
+      const tile = (e.target as HTMLElement).closest('.puzzle-tile') as HTMLElement | null
+      if (!tile || this.isAnimating) return
+      
+      drag = {
+        pointerId: e.pointerId,
+        x: e.clientX,
+        y: e.clientY,
+        row: parseInt(tile.dataset.row!),
+        col: parseInt(tile.dataset.col!)
+      }
+      board.setPointerCapture(e.pointerId)
+    })
+    
+    board.addEventListener('pointerup', (e) => {
+      if (!drag || drag.pointerId !== e.pointerId) return
+      
+      const { x, y, row, col } = drag
+      drag = null
+      
+      const dx = e.clientX - x
+      const dy = e.clientY - y
+      const step = this.tileSize + 6
+      
+      // Ignore taps; a drag of a third of a tile already counts as one step
+      if (Math.max(Math.abs(dx), Math.abs(dy)) < step / 3) return
+      
+      if (Math.abs(dx) >= Math.abs(dy)) {
+        this.rotationHandler?.('row', row, Math.round(dx / step) || Math.sign(dx))
+      } else {
+        this.rotationHandler?.('col', col, Math.round(dy / step) || Math.sign(dy))
+      }
+    })
+    
+    board.addEventListener('pointercancel', () => {
+      drag = null
+    })
+    
+    board.addEventListener('keydown', (e) => {
+      const tile = (e.target as HTMLElement).closest('.puzzle-tile') as HTMLElement | null
+      if (!tile || this.isAnimating) return
+      
+      const row = parseInt(tile.dataset.row!)
+      const col = parseInt(tile.dataset.col!)
+      const rotations: Record<string, [RotationAxis, number, number]> = {
+        ArrowLeft: ['row', row, -1],
+        ArrowRight: ['row', row, 1],
+        ArrowUp: ['col', col, -1],
+        ArrowDown: ['col', col, 1]
+      }
+      
+      const rotation = rotations[e.key]
+      if (rotation) {
+        this.rotationHandler?.(...rotation)
+        e.preventDefault()
+      }
+    })
+  }
+
   /**
    * Create all tile elements for the board
    */
   private createTileElements(board: number[][], clickHandler: TileClickHandler): void {
     if (!this.boardElement) return
     
-    const dimension = board.length
+    const rows = board.length
+    const cols = board[0].length
     
     // Add creating-tiles class for appear animation
     this.boardElement.classList.add('creating-tiles')
     
-    // Calculate tile size based on board dimensions
-    const boardRect = this.boardElement.getBoundingClientRect()
-    const computedStyle = window.getComputedStyle(this.boardElement)
-    const boardPadding = parseFloat(computedStyle.paddingLeft) + parseFloat(computedStyle.paddingRight)
-    const gap = 6 // Gap between tiles
-    
-    // Calculate available space and tile size
-    const availableSpace = boardRect.width - boardPadding
-    this.tileSize = (availableSpace - (dimension - 1) * gap) / dimension
+    // Tile size was calculated for this board by updateBoardStyle
     
     // Create tile elements
-    for (let row = 0; row < dimension; row++) {
-      for (let col = 0; col < dimension; col++) {
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
         const value = board[row][col]
         
         // Skip empty space (0)
         if (value === 0) continue
         
+        // Blocked cells are fixed walls, not tiles
+        if (value === OBSTACLE) {
+          this.createObstacleElement(row, col)
+          continue
+        }
+        
         // Create a tile element
         const tile = document.createElement('div')
         tile.className = 'puzzle-tile'
-        tile.textContent = value.toString()
+        this.applyTileImage(tile, value)
         
         // Add accessibility attributes
         tile.setAttribute('role', 'button')
-        tile.setAttribute('aria-label', `Tile ${value}`)
+        this.applyLockedState(tile, value)
         
         // Add tabindex for keyboard navigation
         tile.setAttribute('tabindex', '0')
@@ -806,17 +1583,323 @@ export class PuzzleView {
     }, 200); // Reduced from 350ms to match faster animation
   }
 
+  /**
+   * Show a step of the tutor: its tiles and their goal cells are marked on
+   * the board and the step is explained above it
+   * @param step Step to show
+   * @param nextTile Tile to click next, or null if there is none
+   */
+  showTutorStep(step: TutorStep, nextTile: number | null): void {
+    this.clearTutorMarks()
+    if (!this.boardElement || !this.tutorMessage) return
+    
+    step.tiles.forEach(value => this.tileElements.get(value)?.classList.add('tutor-tile'))
+    if (nextTile !== null) {
+      this.tileElements.get(nextTile)?.classList.add('tutor-next')
+    }
+    
+    step.targets.forEach(({ row, col }, i) => {
+      const target = document.createElement('div')
+      target.className = 'tutor-target'
+      target.setAttribute('aria-hidden', 'true')
+      target.textContent = String(step.tiles[i])
+      target.dataset.row = row.toString()
+      target.dataset.col = col.toString()
+      this.setTilePosition(target, row, col, false)
+      
+      this.tutorTargets.push(target)
+      this.boardElement!.appendChild(target)
+    })
+    
+    const remaining = step.moves.length === 1 ? '1 move' : `${step.moves.length} moves`
+    this.tutorMessage.textContent = `Step ${step.index + 1} of ${step.total} · ${step.stage}: ${step.description} (${remaining} left in this step)`
+    this.tutorMessage.hidden = false
+  }
+
+  /**
+   * Remove the tutor's marks and explanation
+   */
+  clearTutor(): void {
+    this.clearTutorMarks()
+    if (this.tutorMessage) {
+      this.tutorMessage.textContent = ''
+      this.tutorMessage.hidden = true
+    }
+  }
+
+  /**
+   * Show whether the tutor is switched on
+   */
+  setTutorActive(active: boolean): void {
+    const tutorButton = this.container.querySelector('#tutor-button')
+    tutorButton?.setAttribute('aria-pressed', String(active))
+    tutorButton?.classList.toggle('active', active)
+  }
+
+  /**
+   * Remove the highlights and goal markers of the last tutor step
+   */
+  private clearTutorMarks(): void {
+    this.tileElements.forEach(tile => tile.classList.remove('tutor-tile', 'tutor-next'))
+    this.tutorTargets.forEach(target => target.remove())
+    this.tutorTargets = []
+  }
+
+  /**
+   * Create the element for a blocked cell
+   */
+  private createObstacleElement(row: number, col: number): void {
+    if (!this.boardElement) return
+    
+    const obstacle = document.createElement('div')
+    obstacle.className = 'puzzle-obstacle'
+    obstacle.setAttribute('aria-hidden', 'true')
+    obstacle.dataset.row = row.toString()
+    obstacle.dataset.col = col.toString()
+    this.setTilePosition(obstacle, row, col, false)
+    
+    this.obstacleElements.push(obstacle)
+    this.boardElement.appendChild(obstacle)
+  }
+
+  /**
+   * Set the tiles that never move, shown with a lock
+   * @param locked Values of the locked tiles
+   */
+  setLockedTiles(locked: number[]): void {
+    this.lockedTiles = new Set(locked)
+    this.tileElements.forEach((tile, value) => this.applyLockedState(tile, value))
+  }
+
+  /**
+   * Mark a tile as locked or movable
+   */
+  private applyLockedState(tile: HTMLElement, value: number): void {
+    const locked = this.lockedTiles.has(value)
+    tile.classList.toggle('locked-tile', locked)
+    tile.setAttribute('aria-label', locked ? `Tile ${value} (locked)` : `Tile ${value}`)
+  }
+
+  /**
+   * Show a picture across the tiles instead of plain numbers
+   * @param image Picture cropped to the board's shape, or null for numbers only
+   */
+  setTileImage(image: PuzzleImage | null): void {
+    this.tileImage = image
+    this.tileElements.forEach((tile, value) => this.applyTileImage(tile, value))
+  }
+
+  /**
+   * Set the arrangement that counts as solved
+   * @param goal Goal board of the current game
+   * @param preview Whether to show a small picture of the goal next to the stats
+   */
+  setGoal(goal: number[][], preview: boolean = true): void {
+    this.goalPositions.clear()
+    goal.forEach((rowValues, row) => {
+      rowValues.forEach((value, col) => this.goalPositions.set(value, { row, col }))
+    })
+    
+    // Picture slices follow the goal
+    this.tileElements.forEach((tile, value) => this.applyTileImage(tile, value))
+    
+    const goalPreview = this.container.querySelector('#goal-preview') as HTMLElement | null
+    if (!goalPreview) return
+    
+    goalPreview.hidden = !preview
+    goalPreview.style.gridTemplateColumns = `repeat(${goal[0].length}, 1fr)`
+    goalPreview.innerHTML = goal.flat()
+      .map(value => {
+        if (value === OBSTACLE) return '<span class="goal-obstacle"></span>'
+        return `<span class="${value === 0 ? 'goal-blank' : ''}">${value === 0 ? '' : value}</span>`
+      })
+      .join('')
+  }
+
+  /**
+   * Give a tile its slice of the picture, or its number when there is no picture
+   */
+  private applyTileImage(tile: HTMLElement, value: number): void {
+    if (!this.tileImage) {
+      tile.classList.remove('image-tile')
+      tile.style.backgroundImage = ''
+      tile.style.backgroundSize = ''
+      tile.style.backgroundPosition = ''
+      tile.textContent = value.toString()
+      return
+    }
+    
+    // Each tile shows the part of the picture at its solved position
+    const { rows, cols } = this.currentSize
+    const goal = this.goalPositions.get(value) ?? { row: Math.floor((value - 1) / cols), col: (value - 1) % cols }
+    const x = cols > 1 ? goal.col / (cols - 1) * 100 : 0
+    const y = rows > 1 ? goal.row / (rows - 1) * 100 : 0
+    
+    tile.classList.add('image-tile')
+    tile.style.backgroundImage = `url("${this.tileImage.dataUrl}")`
+    tile.style.backgroundSize = `${cols * 100}% ${rows * 100}%`
+    tile.style.backgroundPosition = `${x}% ${y}%`
+    tile.innerHTML = this.tileImage.showNumbers ? `<span class="tile-number">${value}</span>` : ''
+  }
+
+  /**
+   * Show modal dialog to pick a picture and crop it for the board
+   * @param size Board size the picture is cropped for
+   * @param current Picture currently in use, if any
+   * @param chooseCallback Called with the chosen picture, or null for numbers only
+   */
+  showImagePicker(
+    size: BoardSize,
+    current: PictureChoice | null,
+    chooseCallback: (choice: PictureChoice | null) => void
+  ): void {
+    const modal = this.createModalElement();
+    
+    modal.innerHTML = `
+      <div class="modal-content image-picker">
+        <h2>Picture Puzzle</h2>
+        <p>Pick a picture or upload your own:</p>
+        <div class="bundled-images">
+          ${BUNDLED_IMAGES.map(image => `
+            <button class="bundled-image" data-url="${image.url}" title="${image.name}">
+              <img src="${image.url}" alt="${image.name}">
+            </button>
+          `).join('')}
+        </div>
+        <input type="file" id="image-file" accept="image/*">
+        <canvas id="crop-preview" aria-label="Cropped picture preview"></canvas>
+        <p class="picker-error" aria-live="polite"></p>
+        <div class="crop-controls">
+          <label>Zoom <input type="range" id="crop-zoom" min="1" max="3" step="0.05"></label>
+          <label>Left/Right <input type="range" id="crop-x" min="0" max="1" step="0.01"></label>
+          <label>Up/Down <input type="range" id="crop-y" min="0" max="1" step="0.01"></label>
+          <label><input type="checkbox" id="show-numbers"> Show numbers</label>
+        </div>
+        <div class="modal-buttons">
+          <button id="use-picture-button" class="primary-button" disabled>Use Picture</button>
+          <button id="numbers-button">Numbers Only</button>
+          <button id="cancel-button">Cancel</button>
+        </div>
+      </div>
+    `;
+    
+    // Setup event handlers
+    const fileInput = modal.querySelector('#image-file') as HTMLInputElement;
+    const preview = modal.querySelector('#crop-preview') as HTMLCanvasElement;
+    const errorText = modal.querySelector('.picker-error') as HTMLElement;
+    const zoomInput = modal.querySelector('#crop-zoom') as HTMLInputElement;
+    const xInput = modal.querySelector('#crop-x') as HTMLInputElement;
+    const yInput = modal.querySelector('#crop-y') as HTMLInputElement;
+    const numbersCheckbox = modal.querySelector('#show-numbers') as HTMLInputElement;
+    const useButton = modal.querySelector('#use-picture-button') as HTMLButtonElement;
+    const numbersButton = modal.querySelector('#numbers-button') as HTMLButtonElement;
+    const cancelButton = modal.querySelector('#cancel-button') as HTMLButtonElement;
+    
+    const crop: ImageCrop = { ...(current?.crop ?? DEFAULT_CROP) };
+    zoomInput.value = crop.zoom.toString();
+    xInput.value = crop.x.toString();
+    yInput.value = crop.y.toString();
+    numbersCheckbox.checked = current?.showNumbers ?? true;
+    
+    let source: string | null = null;
+    let image: HTMLImageElement | null = null;
+    
+    const drawPreview = () => {
+      if (!image) return;
+      
+      drawCrop(preview, image, crop, size, 280);
+      
+      // Outline where the tiles will be cut
+      const context = preview.getContext('2d');
+      if (!context) return;
+      context.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+      context.lineWidth = 1;
+      for (let col = 1; col < size.cols; col++) {
+        const x = Math.round(col * preview.width / size.cols) + 0.5;
+        context.beginPath();
+        context.moveTo(x, 0);
+        context.lineTo(x, preview.height);
+        context.stroke();
+      }
+      for (let row = 1; row < size.rows; row++) {
+        const y = Math.round(row * preview.height / size.rows) + 0.5;
+        context.beginPath();
+        context.moveTo(0, y);
+        context.lineTo(preview.width, y);
+        context.stroke();
+      }
+    };
+    
+    const selectSource = async (newSource: string) => {
+      errorText.textContent = '';
+      try {
+        image = await loadImage(newSource);
+        source = newSource;
+        useButton.disabled = false;
+        drawPreview();
+      } catch {
+        errorText.textContent = 'That picture could not be loaded.';
+      }
+    };
+    
+    modal.querySelectorAll('.bundled-image').forEach(button => {
+      button.addEventListener('click', () => {
+        selectSource((button as HTMLElement).dataset.url!);
+      });
+    });
+    
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      
+      try {
+        selectSource(await readFileAsDataUrl(file));
+      } catch {
+        errorText.textContent = 'That file could not be read.';
+      }
+    });
+    
+    [zoomInput, xInput, yInput].forEach(input => {
+      input.addEventListener('input', () => {
+        crop.zoom = parseFloat(zoomInput.value);
+        crop.x = parseFloat(xInput.value);
+        crop.y = parseFloat(yInput.value);
+        drawPreview();
+      });
+    });
+    
+    useButton.addEventListener('click', () => {
+      if (!source) return;
+      this.closeModal();
+      chooseCallback({ source, crop, showNumbers: numbersCheckbox.checked });
+    });
+    
+    numbersButton.addEventListener('click', () => {
+      this.closeModal();
+      chooseCallback(null);
+    });
+    
+    cancelButton.addEventListener('click', () => {
+      this.closeModal();
+    });
+    
+    if (current) {
+      selectSource(current.source);
+    }
+  }
+
   /**
    * Update positions of existing tiles
    */
   private updateTilePositions(board: number[][], clickHandler: TileClickHandler): void {
     if (!this.boardElement) return
     
-    const dimension = board.length
+    const rows = board.length
+    const cols = board[0].length
     
     // Find and update positions of all tiles
-    for (let row = 0; row < dimension; row++) {
-      for (let col = 0; col < dimension; col++) {
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
         const value = board[row][col]
         
         // Skip empty space (0)
@@ -934,9 +2017,165 @@ export class PuzzleView {
   updateMoveCount(moves: number): void {
     if (this.movesCounter) {
       this.movesCounter.textContent = `Moves: ${moves}`
+      this.movesCounter.title = `Counted as ${MOVE_METRIC_LABELS[this.moveMetric]}`
+    }
+  }
+
+  /**
+   * Set how moves are counted, named next to move counts in results
+   */
+  setMoveMetric(metric: MoveMetric): void {
+    this.moveMetric = metric
+  }
+
+  /**
+   * Update the history length display and the undo/redo buttons
+   * @param length Number of moves in the history
+   * @param canUndo Whether the undo button is enabled
+   * @param canRedo Whether the redo button is enabled
+   */
+  updateHistory(length: number, canUndo: boolean, canRedo: boolean): void {
+    if (this.historyCounter) {
+      this.historyCounter.textContent = `History: ${length}`
+    }
+    
+    const undoButton = this.container.querySelector('#undo-button') as HTMLButtonElement | null
+    const redoButton = this.container.querySelector('#redo-button') as HTMLButtonElement | null
+    
+    if (undoButton) undoButton.disabled = !canUndo
+    if (redoButton) redoButton.disabled = !canRedo
+  }
+
+  /**
+   * Show the challenge code of the current scramble
+   * @param seed Seed of the scramble, or null to hide the code
+   */
+  showSeed(seed: number | null): void {
+    if (this.seedDisplay) {
+      this.seedDisplay.textContent = seed !== null ? `Code: ${formatSeed(seed)}` : ''
+    }
+  }
+
+  /**
+   * Write a move count with the metric it was counted in, e.g. "12 moves (STM)"
+   */
+  private formatMoves(moves: number, metric: MoveMetric = this.moveMetric): string {
+    return `${moves} moves (${MOVE_METRIC_ABBREVIATIONS[metric]})`
+  }
+
+  /**
+   * Show on the welcome screen whether today's daily puzzle of a size is
+   * still open, and the current streak. A solved puzzle disables the daily
+   * button until tomorrow.
+   * @param result Today's result for the size, or null if not solved yet
+   * @param streak Days in a row with a solved daily puzzle
+   * @param attempted Whether today's puzzle for the size was started before
+   */
+  showDailyStatus(size: BoardSize, result: DailyResult | null, streak: number, attempted: boolean): void {
+    const dailyStatus = this.container.querySelector('#daily-status')
+    const dailyButton = this.container.querySelector('#daily-button') as HTMLButtonElement | null
+    if (!dailyStatus || !dailyButton) return
+    
+    const streakText = streak > 0 ? ` Streak: ${streak} ${streak === 1 ? 'day' : 'days'} 🔥` : ''
+    if (result) {
+      dailyStatus.textContent = `Today's ${formatBoardSize(size)} daily solved in ${this.formatMoves(result.moves, result.metric)} and ${result.timeSeconds} seconds. Come back tomorrow!${streakText}`
+    } else if (attempted) {
+      dailyStatus.textContent = `Today's ${formatBoardSize(size)} daily was started without a solve; playing it again is practice only.${streakText}`
+    } else {
+      dailyStatus.textContent = `Today's ${formatBoardSize(size)} daily puzzle is waiting.${streakText}`
+    }
+    dailyButton.disabled = result !== null
+  }
+
+  /**
+   * Show the result of a solved daily puzzle
+   * @param moves Number of moves taken
+   * @param timeSeconds Time taken in seconds
+   * @param streak Days in a row with a solved daily puzzle, including today
+   */
+  showDailySolved(moves: number, timeSeconds: number, streak: number): void {
+    if (this.statusMessage) {
+      this.statusMessage.textContent = `Daily puzzle solved in ${this.formatMoves(moves)} and ${timeSeconds} seconds! 🎉 Streak: ${streak} ${streak === 1 ? 'day' : 'days'}. Come back tomorrow for a new one.`
+      this.statusMessage.classList.add('success')
+    }
+  }
+
+  /**
+   * Show a solve of a daily puzzle that was played before, which is not
+   * kept as a daily result
+   * @param moves Number of moves taken
+   * @param timeSeconds Time taken in seconds
+   */
+  showDailyPracticeSolved(moves: number, timeSeconds: number): void {
+    if (!this.statusMessage) return
+    
+    this.statusMessage.textContent = `Solved in ${this.formatMoves(moves)} and ${timeSeconds} seconds! Only the first attempt at a daily puzzle counts, so this was practice.`
+    this.statusMessage.classList.add('success')
+  }
+
+  /**
+   * Show each drill's statistics for a board size on the drill screen.
+   * Boards too small for drills disable the cards.
+   * @param available Whether drills can be played on the size
+   */
+  showDrillStats(size: BoardSize, stats: Record<DrillType, DrillStats>, available: boolean): void {
+    this.container.querySelectorAll<HTMLButtonElement>('.drill-card').forEach(card => {
+      const drillStats = stats[card.dataset.drill as DrillType]
+      const statsText = card.querySelector('.drill-stats')
+      card.disabled = !available
+      if (statsText && drillStats) {
+        statsText.textContent = this.formatDrillStats(drillStats)
+      }
+    })
+    
+    const drillStatus = this.container.querySelector('#drill-status')
+    if (drillStatus) {
+      drillStatus.textContent = available ? '' : `Drills need a board with at least 3 rows and 3 columns, not ${formatBoardSize(size)}.`
+    }
+  }
+
+  /**
+   * Show the result of a solved drill along with the drill's record
+   * @param timeSeconds Time taken in seconds
+   */
+  showDrillSolved(drill: DrillType, moves: number, timeSeconds: number, stats: DrillStats): void {
+    if (this.statusMessage) {
+      this.statusMessage.textContent = `${DRILL_LABELS[drill]} solved in ${this.formatMoves(moves)} and ${timeSeconds} seconds! 🎉 ${this.formatDrillStats(stats)}. Press reset for another.`
+      this.statusMessage.classList.add('success')
     }
   }
 
+  /**
+   * Summarise a drill record, e.g. "7/9 solved (78%), best 00:12, average 00:20"
+   */
+  private formatDrillStats(stats: DrillStats): string {
+    if (stats.attempts === 0) return 'Not tried yet'
+    
+    const rate = Math.round(100 * stats.solves / stats.attempts)
+    const times = stats.bestTimeSeconds !== null ?
+      `, best ${formatTime(stats.bestTimeSeconds)}, average ${formatTime(Math.round(stats.totalTimeSeconds / stats.solves))}` :
+      ''
+    return `${stats.solves}/${stats.attempts} solved (${rate}%)${times}`
+  }
+
+  /**
+   * Show the result of a blindfold solve
+   * @param previousBest Fastest earlier blindfold solve of the same puzzle, if any
+   */
+  showBlindfoldSolved(result: BlindfoldResult, previousBest: BlindfoldResult | null): void {
+    if (!this.statusMessage) return
+    
+    const penalty = result.peeks > 0 ?
+      ` + ${result.peeks} ${result.peeks === 1 ? 'peek' : 'peeks'} = ${formatTime(getPenalizedTime(result))}` :
+      ''
+    const record = !previousBest || getPenalizedTime(result) < getPenalizedTime(previousBest) ?
+      'New blindfold best!' :
+      `Blindfold best: ${formatTime(getPenalizedTime(previousBest))}.`
+    
+    this.statusMessage.textContent = `Solved blindfolded in ${this.formatMoves(result.moves, result.metric)} and ${formatTime(result.timeSeconds)}${penalty}! 🎉 ${record}`
+    this.statusMessage.classList.add('success')
+  }
+
   /**
    * Show a success message when the puzzle is solved
    * @param moves Number of moves taken
@@ -945,14 +2184,52 @@ export class PuzzleView {
   showSuccessMessage(moves: number, timeSeconds?: number): void {
     if (this.statusMessage) {
       if (timeSeconds !== undefined) {
-        this.statusMessage.textContent = `Puzzle solved in ${moves} moves and ${timeSeconds} seconds! 🎉`;
+        this.statusMessage.textContent = `Puzzle solved in ${this.formatMoves(moves)} and ${timeSeconds} seconds! 🎉`;
       } else {
-        this.statusMessage.textContent = `Puzzle solved in ${moves} moves! 🎉`;
+        this.statusMessage.textContent = `Puzzle solved in ${this.formatMoves(moves)}! 🎉`;
       }
       this.statusMessage.classList.add('success');
     }
   }
 
+  /**
+   * Show that our solve won the race
+   * @param moves Number of moves taken
+   * @param timeSeconds Time taken in seconds
+   */
+  showRaceWon(moves: number, timeSeconds: number): void {
+    if (!this.statusMessage) return
+    
+    this.statusMessage.textContent = `You won the race in ${this.formatMoves(moves)} and ${timeSeconds} seconds! 🏁`
+    this.statusMessage.classList.add('success')
+  }
+
+  /**
+   * Show an informational status message
+   * @param message The message to display
+   */
+  showStatusMessage(message: string): void {
+    if (this.statusMessage) {
+      this.statusMessage.textContent = message
+      this.statusMessage.classList.remove('success')
+    }
+  }
+
+  /**
+   * Briefly highlight the tile at a board position
+   * @param row Row of the tile
+   * @param col Column of the tile
+   * @param duration Time in milliseconds to keep the highlight
+   */
+  highlightTile(row: number, col: number, duration: number = 1500): void {
+    this.tileElements.forEach((tile) => {
+      if (tile.dataset.row === row.toString() && tile.dataset.col === col.toString()) {
+        tile.classList.add('hint')
+        setTimeout(() => tile.classList.remove('hint'), duration)
+      }
+    })
+  }
+
   /**
    * Clear the status message
    */
@@ -963,6 +2240,26 @@ export class PuzzleView {
     }
   }
 
+  /**
+   * Show how close the opponent is to solving. Ignored once the opponent
+   * has won, so the final message stays up.
+   * @param playerName Name of the opponent
+   * @param progress Opponent's latest progress
+   */
+  showOpponentProgress(playerName: string, progress: ProgressMetrics): void {
+    if (!this.opponentStatus || this.opponentStatus.classList.contains('opponent-won')) return
+    
+    this.opponentStatus.innerHTML = `
+      <span class="opponent-progress-label"></span>
+      <div class="progress-bar compact"><div class="progress-fill"></div></div>
+    `
+    const label = this.opponentStatus.querySelector('.opponent-progress-label') as HTMLElement
+    const fill = this.opponentStatus.querySelector('.progress-fill') as HTMLElement
+    label.textContent = `${playerName}: ${progress.percent}% (${progress.tilesInPlace}/${progress.tileCount} tiles)`
+    fill.style.width = `${progress.percent}%`
+    this.opponentStatus.title = `Total distance from the goal: ${progress.distance}`
+  }
+
   /**
    * Show message when the opponent has won
    * @param playerName Name of the player who won
@@ -971,7 +2268,7 @@ export class PuzzleView {
    */
   showOpponentWon(playerName: string, moves: number, timeSeconds: number): void {
     if (this.opponentStatus) {
-      this.opponentStatus.textContent = `${playerName} solved the puzzle in ${moves} moves and ${timeSeconds} seconds! 🏆`;
+      this.opponentStatus.textContent = `${playerName} solved the puzzle in ${this.formatMoves(moves)} and ${timeSeconds} seconds! 🏆`;
       this.opponentStatus.classList.add('opponent-won');
     }
   }
@@ -987,71 +2284,56 @@ export class PuzzleView {
   }
 
   /**
-   * Update board sizing based on viewport and dimension
+   * Update board sizing based on viewport and board size
    */
-  private updateBoardStyle(dimension: number): void {
+  private updateBoardStyle(size: BoardSize): void {
     if (!this.boardElement) return
     
+    const { rows, cols } = size
     const viewportHeight = window.innerHeight
     const viewportWidth = window.innerWidth
     
     // Use a consistent calculation method that works well for both solo and multiplayer
-    // Calculate maximum size that fits the screen with more consistent constraints
-    const maxSize = Math.min(
-      // Limit height to avoid overflow with controls
-      viewportHeight * 0.65,
-      // Limit width to avoid issues with smaller screens
-      viewportWidth * 0.75,
-      // Cap maximum size to avoid too large boards
-      600
-    )
-    
-    // Round to nearest pixel for consistency
-    const boardSize = Math.floor(maxSize)
+    // Limit height to avoid overflow with controls and width for smaller screens,
+    // capping both to avoid too large boards
+    // Small phones get nearly the full width
+    const maxWidth = Math.min(viewportWidth * (viewportWidth <= 480 ? 0.95 : 0.75), 600)
+    const maxHeight = Math.min(viewportHeight * 0.65, 600)
     
-    console.log("CONSISTENT BOARD STYLE CALCULATION: ", {
-      dimension,
-      viewportHeight,
-      viewportWidth,
-      maxSize,
-      boardSize
-    });
-    
-    // Update board size
-    this.boardElement.style.width = `${boardSize}px`
-    this.boardElement.style.height = `${boardSize}px`
-    
-    // Set current dimension for CSS grid pattern
-    document.documentElement.style.setProperty('--current-dimension', dimension.toString())
-    
-    // Get the actual board size after applying CSS
-    const boardRect = this.boardElement.getBoundingClientRect()
     const computedStyle = window.getComputedStyle(this.boardElement)
     const boardPadding = parseFloat(computedStyle.paddingLeft) + parseFloat(computedStyle.paddingRight)
     const gap = 6 // Gap between tiles
     
-    // Calculate available space for tiles
-    const availableSpace = boardRect.width - boardPadding
+    // Largest tile size that lets every row and column fit
+    this.tileSize = Math.floor(Math.min(
+      (maxWidth - boardPadding - (cols - 1) * gap) / cols,
+      (maxHeight - boardPadding - (rows - 1) * gap) / rows
+    ))
     
-    // Calculate tile size to exactly fill the available space
-    this.tileSize = Math.floor((availableSpace - (dimension - 1) * gap) / dimension)
+    // Size the board to wrap its tiles exactly
+    const boardWidth = cols * this.tileSize + (cols - 1) * gap + boardPadding
+    const boardHeight = rows * this.tileSize + (rows - 1) * gap + boardPadding
     
-    console.log("CONSISTENT BOARD STYLE AFTER CALCULATION: ", {
-      boardRect: {
-        width: boardRect.width,
-        height: boardRect.height
-      },
+    console.log("CONSISTENT BOARD STYLE CALCULATION: ", {
+      size,
+      viewportHeight,
+      viewportWidth,
       boardPadding,
-      availableSpace,
       tileSize: this.tileSize,
-      finalStyle: {
-        width: this.boardElement.style.width,
-        height: this.boardElement.style.height
-      }
+      boardWidth,
+      boardHeight
     });
     
-    // Adjust font size based on dimension
-    const fontSize = Math.max(16, Math.floor(48 / dimension * 3))
+    // Update board size
+    this.boardElement.style.width = `${boardWidth}px`
+    this.boardElement.style.height = `${boardHeight}px`
+    
+    // Set current size for CSS grid pattern
+    document.documentElement.style.setProperty('--current-rows', rows.toString())
+    document.documentElement.style.setProperty('--current-cols', cols.toString())
+    
+    // Adjust font size based on the longer side
+    const fontSize = Math.max(16, Math.floor(48 / Math.max(rows, cols) * 3))
     document.documentElement.style.setProperty('--tile-font-size', `${fontSize}px`)
     
     // Update positions of all existing tiles with new size
@@ -1062,7 +2344,8 @@ export class PuzzleView {
    * Update all tile sizes when board is resized
    */
   private updateTileSizes(): void {
-    this.tileElements.forEach((tile) => {
+    const elements = [...this.tileElements.values(), ...this.obstacleElements, ...this.tutorTargets]
+    elements.forEach((tile) => {
       const row = parseInt(tile.dataset.row || '0')
       const col = parseInt(tile.dataset.col || '0')
       this.setTilePosition(tile, row, col, false)
@@ -1073,7 +2356,7 @@ export class PuzzleView {
    * Adjust the board size on window resize
    */
   handleResize(): void {
-    this.updateBoardStyle(this.currentDimension)
+    this.updateBoardStyle(this.currentSize)
   }
 
   /**
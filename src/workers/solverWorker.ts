@@ -0,0 +1,37 @@
+import { PuzzleSolver, SolverProgress, SolverResult } from '../models/PuzzleSolver'
+
+/**
+ * Request posted to the solver worker
+ */
+export interface SolverWorkerRequest {
+  id: number
+  board: number[][]
+  goal?: number[][]
+  maxNodes?: number
+}
+
+/**
+ * Messages posted back by the solver worker
+ */
+export type SolverWorkerResponse =
+  | { type: 'progress'; id: number; progress: SolverProgress }
+  | { type: 'result'; id: number; result: SolverResult }
+  | { type: 'error'; id: number; message: string }
+
+// The project compiles against the DOM lib, so view the worker scope through the Worker API
+const ctx = self as unknown as Worker
+
+ctx.onmessage = (event: MessageEvent<SolverWorkerRequest>) => {
+  const { id, board, goal, maxNodes } = event.data
+  const post = (response: SolverWorkerResponse) => ctx.postMessage(response)
+
+  try {
+    const solver = new PuzzleSolver({
+      maxNodes,
+      onProgress: (progress) => post({ type: 'progress', id, progress })
+    })
+    post({ type: 'result', id, result: solver.solve(board, goal) })
+  } catch (error: any) {
+    post({ type: 'error', id, message: error.message || 'Unknown solver error' })
+  }
+}